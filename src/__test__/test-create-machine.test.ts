@@ -1,8 +1,28 @@
 /* eslint-disable require-await */
 /* eslint-disable no-sequences */
 
-import { StateObject, EventObject, Assign } from "../types";
+import {
+	StateObject,
+	EventObject,
+	Assign,
+	ActorRef,
+	MachineState,
+} from "../types";
 import { createService as createMachine } from "../service";
+import {
+	createMachine as createStatelessMachine,
+	transition,
+	sendParent,
+	sendTo,
+	runActions,
+	sendAfter,
+	cancel,
+	validate,
+	and,
+	or,
+	not,
+} from "../core";
+import { createSimulatedClock } from "../clock";
 
 describe("createService", () => {
 	describe("when no args are passed", () => {
@@ -171,6 +191,2053 @@ describe("createService", () => {
 			});
 		});
 	});
+
+	describe("with nested states", () => {
+		type C = { log: string[] };
+		type E = { type: "edit" } | { type: "save" } | { type: "close" };
+		const log = (entry: string) => (ctx: C) => ({
+			log: ctx.log.concat(entry),
+		});
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, E>(
+				({ state, transition, enter, exit, initial }) => {
+					state(
+						"editor",
+						initial("clean"),
+						enter({ reduce: log("enter editor") }),
+						exit({ reduce: log("exit editor") }),
+						transition("close", "closed"),
+						state(
+							"dirty",
+							enter({ reduce: log("enter dirty") }),
+							exit({ reduce: log("exit dirty") }),
+							transition("save", "clean")
+						),
+						state(
+							"clean",
+							enter({ reduce: log("enter clean") }),
+							exit({ reduce: log("exit clean") }),
+							transition("edit", "dirty")
+						)
+					);
+					state("closed", enter({ reduce: log("enter closed") }));
+				},
+				{ log: [] }
+			);
+
+		it("should enter the initial child state", () => {
+			const machine = initMachine();
+			expect(machine.state.name).toBe("editor.clean");
+			expect(machine.state.context.log).toEqual([
+				"enter editor",
+				"enter clean",
+			]);
+		});
+
+		it("should not register child states at the top level", () => {
+			const machine = initMachine();
+			expect(Object.keys(machine.machine.states)).toEqual(["editor", "closed"]);
+		});
+
+		describe("after transitioning between child states", () => {
+			const machine = initMachine();
+			machine.send("edit");
+
+			it("should move to the sibling state", () => {
+				expect(machine.state.name).toBe("editor.dirty");
+			});
+
+			it("should not exit or re-enter the parent state", () => {
+				expect(machine.state.context.log).toEqual([
+					"enter editor",
+					"enter clean",
+					"exit clean",
+					"enter dirty",
+				]);
+			});
+		});
+
+		describe("after sending an event handled by the parent state", () => {
+			const machine = initMachine();
+			machine.send("edit");
+			machine.send("close");
+
+			it("should bubble the event from the leaf to the parent", () => {
+				expect(machine.state.name).toBe("closed");
+			});
+
+			it("should exit the states from the leaf outwards", () => {
+				expect(machine.state.context.log).toEqual([
+					"enter editor",
+					"enter clean",
+					"exit clean",
+					"enter dirty",
+					"exit dirty",
+					"exit editor",
+					"enter closed",
+				]);
+			});
+		});
+
+		it("should throw on an invalid initial state", () => {
+			expect(() =>
+				createMachine(({ state, initial }) => {
+					state("a", initial("c"), state("b"));
+				})
+			).toThrow("Invalid initial state 'c' of state 'a'");
+		});
+
+		it("should enter a nested initial state along with its parents", () => {
+			const machine = createMachine(({ state, initial }) => {
+				state(
+					"a",
+					initial("b.d"),
+					state("b", state("c"), state("d")),
+					state("e")
+				);
+			});
+			expect(machine.state.configuration).toEqual(["a", "a.b", "a.b.d"]);
+		});
+
+		it("should throw on an initial state outside of the state", () => {
+			expect(() =>
+				createMachine(({ state, initial }) => {
+					state("a", initial("c"), state("b"));
+					state("c");
+				})
+			).toThrow("Invalid initial state 'c' of state 'a'");
+		});
+
+		it("should throw on a target outside of the state's scope", () => {
+			expect(() =>
+				createMachine(({ state, transition }) => {
+					state("a", state("b"));
+					state("c", state("d"), transition("go", "b"));
+				})
+			).toThrow("Invalid transition target 'b'");
+		});
+	});
+
+	describe("with parallel states", () => {
+		type C = {};
+		let running: string[] = [];
+		const track = (name: string) => () => {
+			running.push(name);
+			return () => {
+				running = running.filter((n) => n !== name);
+			};
+		};
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, EventObject>(
+				({ state, parallel, transition, enter }) => {
+					parallel(
+						"upload",
+						transition("cancel", "cancelled"),
+						state(
+							"network",
+							state(
+								"idle",
+								enter({ effect: track("idle") }),
+								transition("start", "busy")
+							),
+							state(
+								"busy",
+								enter({ effect: track("busy") }),
+								transition("finish", "idle")
+							)
+						),
+						state(
+							"ui",
+							state(
+								"collapsed",
+								enter({ effect: track("collapsed") }),
+								transition("toggle", "expanded")
+							),
+							state(
+								"expanded",
+								transition("toggle", "collapsed"),
+								transition("start", "collapsed")
+							)
+						)
+					);
+					state("cancelled");
+				}
+			);
+
+		it("should enter every region", () => {
+			const machine = initMachine();
+			expect(machine.state.name).toBe("upload");
+			expect(machine.state.configuration).toEqual([
+				"upload",
+				"upload.network",
+				"upload.network.idle",
+				"upload.ui",
+				"upload.ui.collapsed",
+			]);
+		});
+
+		describe("after sending an event handled by a single region", () => {
+			const machine = initMachine();
+			machine.send("toggle");
+
+			it("should only transition that region", () => {
+				expect(machine.state.configuration).toEqual([
+					"upload",
+					"upload.network",
+					"upload.network.idle",
+					"upload.ui",
+					"upload.ui.expanded",
+				]);
+			});
+		});
+
+		describe("after sending an event handled by several regions", () => {
+			const machine = initMachine();
+			machine.send("toggle");
+			machine.send("start");
+			const effects = running;
+			machine.stop();
+
+			it("should transition every region", () => {
+				expect(machine.state.configuration).toEqual([
+					"upload",
+					"upload.network",
+					"upload.network.busy",
+					"upload.ui",
+					"upload.ui.collapsed",
+				]);
+			});
+
+			it("should run the effects of every region", () => {
+				expect(effects).toEqual(["busy", "collapsed"]);
+			});
+		});
+
+		describe("after sending an event handled by the parallel state", () => {
+			const machine = initMachine();
+			machine.send("cancel");
+
+			it("should exit every region", () => {
+				expect(machine.state.name).toBe("cancelled");
+				expect(machine.state.configuration).toEqual(["cancelled"]);
+			});
+		});
+	});
+
+	describe("state value and helpers", () => {
+		const initMachine = () =>
+			createMachine(({ state, parallel, transition, tags }) => {
+				state(
+					"editor",
+					state("clean", transition("edit", "dirty")),
+					state("dirty", tags("unsaved"), transition("upload", "upload"))
+				);
+				parallel(
+					"upload",
+					tags("busy"),
+					state("network", state("idle")),
+					state("ui", state("collapsed"))
+				);
+			});
+
+		it("should have a structured value", () => {
+			const machine = initMachine();
+			expect(machine.state.value).toEqual({ editor: "clean" });
+			machine.send("edit");
+			machine.send("upload");
+			expect(machine.state.value).toEqual({
+				upload: { network: "idle", ui: "collapsed" },
+			});
+		});
+
+		it("should match state names, paths and values", () => {
+			const machine = initMachine();
+			expect(machine.state.matches("editor")).toBe(true);
+			expect(machine.state.matches("editor.clean")).toBe(true);
+			expect(machine.state.matches({ editor: "clean" })).toBe(true);
+			expect(machine.state.matches({ editor: "dirty" })).toBe(false);
+			expect(machine.state.matches("upload")).toBe(false);
+		});
+
+		it("should check the tags of the active states", () => {
+			const machine = initMachine();
+			expect(machine.state.hasTag("unsaved")).toBe(false);
+			machine.send("edit");
+			expect(machine.state.hasTag("unsaved")).toBe(true);
+			expect(machine.state.hasTag("busy")).toBe(false);
+			machine.send("upload");
+			expect(machine.state.hasTag("busy")).toBe(true);
+		});
+
+		it("should leave the helpers out when serialized", () => {
+			const machine = initMachine();
+			expect(JSON.parse(JSON.stringify(machine.state))).toEqual({
+				name: "editor.clean",
+				context: {},
+				configuration: ["editor", "editor.clean"],
+			});
+		});
+	});
+
+	describe("with history states", () => {
+		const description = ({ state, transition, history }: any) => {
+			state(
+				"settings",
+				history("shallow"),
+				history("deep", { deep: true }),
+				transition("confirm", "dialog"),
+				state("general", transition("next", "advanced")),
+				state(
+					"advanced",
+					state("network", transition("next", "display")),
+					state("display")
+				)
+			);
+			state(
+				"dialog",
+				transition("back", "settings"),
+				transition("resume", "settings.shallow"),
+				transition("resumeDeep", "settings.deep")
+			);
+		};
+
+		const initMachine = () => {
+			const machine = createMachine(description);
+			machine.send("next");
+			machine.send("next");
+			machine.send("confirm");
+			return machine;
+		};
+
+		it("should enter the initial state without history", () => {
+			const machine = initMachine();
+			machine.send("back");
+			expect(machine.state.name).toBe("settings.general");
+		});
+
+		it("should restore the active child state with shallow history", () => {
+			const machine = initMachine();
+			machine.send("resume");
+			expect(machine.state.name).toBe("settings.advanced.network");
+		});
+
+		it("should restore the active descendants with deep history", () => {
+			const machine = initMachine();
+			machine.send("resumeDeep");
+			expect(machine.state.name).toBe("settings.advanced.display");
+		});
+
+		it("should use the default target before the state was exited", () => {
+			const machine = createMachine(({ state, transition, history }) => {
+				state("dialog", transition("resume", "settings.fallback"));
+				state(
+					"settings",
+					history("fallback", { target: "advanced" }),
+					state("general"),
+					state("advanced")
+				);
+			});
+			machine.send("resume");
+			expect(machine.state.name).toBe("settings.advanced");
+		});
+
+		it("should keep the history in the serializable state", () => {
+			const machine = initMachine();
+			const saved = JSON.parse(JSON.stringify(machine.state));
+			expect(saved.history["settings.deep"]).toEqual([
+				"settings.advanced.display",
+			]);
+
+			const [next] = transition(
+				createStatelessMachine(description),
+				saved,
+				"resumeDeep"
+			);
+			expect(next.name).toBe("settings.advanced.display");
+		});
+	});
+
+	describe("with delayed transitions", () => {
+		type C = { timeout: number; timedOut?: boolean };
+		const initMachine = () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, transition, after }) => {
+					state("idle", after(1000, "waiting"), transition("skip", "waiting"));
+					state(
+						"waiting",
+						after((ctx) => ctx.timeout, "idle", {
+							assign: { timedOut: true },
+						}),
+						transition("cancel", "cancelled")
+					);
+					state("cancelled");
+				},
+				{ timeout: 500 },
+				{ clock }
+			);
+			return { clock, machine };
+		};
+
+		it("should transition once the delay has passed", () => {
+			const { clock, machine } = initMachine();
+			clock.advance(999);
+			expect(machine.state.name).toBe("idle");
+			clock.advance(1);
+			expect(machine.state.name).toBe("waiting");
+		});
+
+		it("should compute the delay from context", () => {
+			const { clock, machine } = initMachine();
+			machine.send("skip");
+			clock.advance(500);
+			expect(machine.state.name).toBe("idle");
+			expect(machine.state.context.timedOut).toBe(true);
+		});
+
+		it("should cancel the timer when exiting the state", () => {
+			const { clock, machine } = initMachine();
+			machine.send("skip");
+			machine.send("cancel");
+			clock.advance(1000);
+			expect(machine.state.name).toBe("cancelled");
+		});
+	});
+
+	describe("with an explicit initial state", () => {
+		it("should start in the initial state declared at the top level", () => {
+			const machine = createMachine(({ state, initial }) => {
+				state("a", initial("c"), state("b"), state("c"));
+				state("d");
+				initial("d");
+			});
+			expect(machine.state.name).toBe("d");
+		});
+
+		it("should throw on an invalid initial state", () => {
+			expect(() =>
+				createStatelessMachine(
+					({ state }) => {
+						state("a");
+					},
+					{ initial: "b" }
+				)
+			).toThrow("Invalid initial state 'b'");
+		});
+	});
+
+	describe("with a lazy initial context", () => {
+		it("should call the factory for the initial context", () => {
+			const factory = jest.fn(() => ({ a: 1 }));
+			const machine = createMachine(({ state }) => {
+				state("a");
+			}, factory);
+			expect(factory).toHaveBeenCalledTimes(1);
+			expect(machine.state.context).toEqual({ a: 1 });
+		});
+	});
+
+	describe("with a given initial state", () => {
+		const log: string[] = [];
+		const description = ({ state, transition, enter }: any) => {
+			state("a", transition("go", "b"));
+			state(
+				"b",
+				enter({ action: () => log.push("enter b") }),
+				state(
+					"c",
+					enter({
+						effect: () => {
+							log.push("effect c");
+						},
+					})
+				),
+				state("d")
+			);
+		};
+
+		it("should enter the state with the given name", () => {
+			log.length = 0;
+			const machine = createMachine(description, {}, { initialState: "b" });
+			expect(machine.state.name).toBe("b.c");
+			expect(log).toEqual(["enter b", "effect c"]);
+		});
+
+		it("should resume the given state object", () => {
+			log.length = 0;
+			type C = { x?: number };
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				description,
+				{},
+				{ initialState: { name: "b.c", context: { x: 1 } } }
+			);
+			expect(machine.state.name).toBe("b.c");
+			expect(machine.state.configuration).toEqual(["b", "b.c"]);
+			expect(machine.state.context).toEqual({ x: 1 });
+			expect(log).toEqual(["effect c"]);
+		});
+
+		it("should throw on an invalid initial state of a created machine", () => {
+			const machine = createStatelessMachine(({ state }) => {
+				state("a");
+			});
+			expect(() =>
+				createMachine(machine, {}, { initialState: "nope" })
+			).toThrow("Invalid initial state 'nope'");
+		});
+	});
+
+	describe("with wildcard transitions", () => {
+		const initMachine = () =>
+			createMachine(({ state, transition }) => {
+				state(
+					"parent",
+					transition("field.focus", "focused"),
+					state(
+						"form",
+						transition("*", "other"),
+						transition("field.*", "field"),
+						transition("field.change.*", "change"),
+						transition("field.change.email", "email")
+					)
+				);
+				state("focused");
+				state("other");
+				state("field");
+				state("change");
+				state("email");
+			});
+
+		it("should prefer exact matches", () => {
+			const machine = initMachine();
+			machine.send("field.change.email");
+			expect(machine.state.name).toBe("email");
+		});
+
+		it("should prefer the most specific prefix", () => {
+			const machine = initMachine();
+			machine.send("field.change.name");
+			expect(machine.state.name).toBe("change");
+		});
+
+		it("should match nested events by prefix", () => {
+			const machine = initMachine();
+			machine.send("field.blur");
+			expect(machine.state.name).toBe("field");
+		});
+
+		it("should match any event with the catch-all", () => {
+			const machine = initMachine();
+			machine.send("submit");
+			expect(machine.state.name).toBe("other");
+		});
+
+		it("should prefer the wildcards of child states to the parent", () => {
+			const machine = initMachine();
+			machine.send("field.focus");
+			expect(machine.state.name).toBe("field");
+		});
+	});
+
+	describe("with global transitions", () => {
+		type C = { resets: number };
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, EventObject>(
+				({ state, transition, internal, on }) => {
+					on(
+						transition("logout", "loggedOut"),
+						internal("reset", { reduce: (ctx) => ({ resets: ctx.resets + 1 }) })
+					);
+					state(
+						"loggedIn",
+						transition("logout", "confirm"),
+						state("home", transition("open", "settings")),
+						state("settings")
+					);
+					state("confirm");
+					state("loggedOut");
+				},
+				{ resets: 0 }
+			);
+
+		it("should handle the event in any state", () => {
+			const machine = initMachine();
+			machine.send("open");
+			machine.send("reset");
+			expect(machine.state.name).toBe("loggedIn.settings");
+			expect(machine.state.context.resets).toBe(1);
+			machine.send("logout");
+			machine.send("logout");
+			expect(machine.state.name).toBe("loggedOut");
+		});
+
+		it("should prefer the transitions of the active states", () => {
+			const machine = initMachine();
+			machine.send("logout");
+			expect(machine.state.name).toBe("confirm");
+		});
+
+		it("should throw on an invalid global transition target", () => {
+			expect(() =>
+				createMachine(({ state, transition, on }) => {
+					state("a");
+					on(transition("go", "b"));
+				})
+			).toThrow("Invalid transition target 'b'");
+		});
+	});
+
+	describe("with final states", () => {
+		type C = { total: number };
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, EventObject>(
+				({ state, final, transition }) => {
+					state(
+						"checkout",
+						transition("done.state.checkout", "paid"),
+						state("cart", transition("pay", "confirmed")),
+						final("confirmed")
+					);
+					state("paid", transition("close", "closed"));
+					final("closed", { data: (ctx) => ({ charged: ctx.total }) });
+				},
+				{ total: 42 }
+			);
+
+		it("should complete the parent state on entering a final child state", () => {
+			const machine = initMachine();
+			machine.send("pay");
+			expect(machine.state.name).toBe("paid");
+			expect(machine.state.final).toBeUndefined();
+		});
+
+		it("should complete the machine with the output data", async () => {
+			const machine = initMachine();
+			const onDone = jest.fn();
+			machine.onDone(onDone);
+			machine.send("pay");
+			machine.send("close");
+			expect(machine.state.final).toBe(true);
+			expect(machine.state.output).toEqual({ charged: 42 });
+			expect(onDone).toHaveBeenCalledTimes(1);
+			expect(onDone).toHaveBeenCalledWith({
+				type: "done",
+				data: { charged: 42 },
+			});
+			await expect(machine.done).resolves.toEqual({ charged: 42 });
+		});
+
+		it("should notify immediately when already completed", () => {
+			const machine = initMachine();
+			machine.send("pay");
+			machine.send("close");
+			const onDone = jest.fn();
+			machine.onDone(onDone);
+			expect(onDone).toHaveBeenCalledWith({
+				type: "done",
+				data: { charged: 42 },
+			});
+		});
+
+		it("should complete a parallel state once all regions completed", () => {
+			const machine = createMachine(
+				({ state, parallel, final, transition }) => {
+					parallel(
+						"upload",
+						transition("done.state.upload", "uploaded"),
+						state(
+							"file",
+							state("sending", transition("file.sent", "sent")),
+							final("sent")
+						),
+						state(
+							"thumbnail",
+							state("sending", transition("thumbnail.sent", "sent")),
+							final("sent")
+						)
+					);
+					state("uploaded");
+				}
+			);
+			machine.send("file.sent");
+			expect(machine.state.name).toBe("upload");
+			machine.send("thumbnail.sent");
+			expect(machine.state.name).toBe("uploaded");
+		});
+
+		it("should send the completion event to another machine", () => {
+			const child = createMachine(({ state, final, transition }) => {
+				state("working", transition("finish", "finished"));
+				final("finished", { data: () => 7 });
+			});
+			const parent = createMachine<
+				{ result?: number },
+				StateObject<{ result?: number }>,
+				EventObject & { data?: number }
+			>(({ state, transition }) => {
+				state(
+					"waiting",
+					transition("done", "finished", {
+						assign: (_, event) => ({ result: event.data }),
+					})
+				);
+				state("finished");
+			});
+			child.onDone(parent.send);
+			child.send("finish");
+			expect(parent.state.name).toBe("finished");
+			expect(parent.state.context.result).toBe(7);
+		});
+
+		it("should throw when a final state is passed transitions", () => {
+			expect(() =>
+				createMachine(({ final, transition }) => {
+					// @ts-expect-error
+					final("done", transition("go", "done"));
+				})
+			).toThrow(
+				"Final state 'done' should be passed one of enter(), exit() or tags()"
+			);
+		});
+	});
+
+	describe("with events sent while processing an event", () => {
+		it("should process an event sent by an action after the current one", () => {
+			const names: string[] = [];
+			const machine = createMachine(({ state, transition }) => {
+				state(
+					"a",
+					transition("next", "b", {
+						action: () => {
+							machine.send("next");
+							names.push(machine.state.name);
+						},
+					})
+				);
+				state("b", transition("next", "c"));
+				state("c");
+			});
+			machine.subscribe((state: StateObject<{}>) => names.push(state.name));
+			machine.send("next");
+			expect(names).toEqual(["b", "b", "c"]);
+			expect(machine.state.name).toBe("c");
+			expect(machine.prev!.name).toBe("b");
+		});
+
+		it("should process an event sent by an effect after the effects started", () => {
+			const started: string[] = [];
+			const machine = createMachine(({ state, transition, enter }) => {
+				state(
+					"a",
+					enter({
+						effect: (_, __, send) => {
+							send("next");
+							started.push("a");
+						},
+					}),
+					transition("next", "b")
+				);
+				state(
+					"b",
+					enter({
+						effect: () => {
+							started.push("b");
+						},
+					})
+				);
+			});
+			expect(machine.state.name).toBe("b");
+			expect(started).toEqual(["a", "b"]);
+		});
+
+		it("should notify every subscriber before processing the next event", () => {
+			const notified: string[] = [];
+			const machine = createMachine(({ state, transition }) => {
+				state("a", transition("next", "b"));
+				state("b", transition("next", "c"));
+				state("c");
+			});
+			machine.subscribe((state: StateObject<{}>) => {
+				notified.push(`first ${state.name}`);
+				if (state.name === "b") machine.send("next");
+			});
+			machine.subscribe((state: StateObject<{}>) => {
+				notified.push(`second ${state.name}`);
+			});
+			machine.send("next");
+			expect(notified).toEqual(["first b", "second b", "first c", "second c"]);
+		});
+
+		it("should drop the queued events when stopped", () => {
+			const machine = createMachine(({ state, transition }) => {
+				state("a", transition("next", "b"));
+				state("b", transition("next", "c"));
+				state("c");
+			});
+			machine.subscribe(() => {
+				machine.send("next");
+				machine.stop();
+			});
+			machine.send("next");
+			expect(machine.state.name).toBe("b");
+		});
+	});
+
+	describe("with raised events", () => {
+		type C = { log: string[] };
+		type E = EventObject & { entry?: string };
+		const log = {
+			assign: (ctx: C, event: Omit<E, "type">) => ({
+				log: ctx.log.concat(event.entry!),
+			}),
+		};
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, E>(
+				({ state, transition, internal, enter }) => {
+					state(
+						"idle",
+						transition("submit", "validating", {
+							raise: (_, event) => ({ type: "log", entry: event.type }),
+						})
+					);
+					state(
+						"validating",
+						enter({ raise: "valid" }),
+						internal("log", log),
+						transition("valid", "valid", {
+							raise: { type: "log", entry: "valid" },
+						})
+					);
+					state("valid", internal("log", log));
+				},
+				{ log: [] }
+			);
+
+		it("should process the raised events in order before the next event", () => {
+			const machine = initMachine();
+			const names: string[] = [];
+			machine.subscribe((state: StateObject<C>) => names.push(state.name));
+			machine.send("submit");
+			expect(names).toEqual(["valid"]);
+			expect(machine.state.context.log).toEqual(["submit", "valid"]);
+		});
+
+		it("should take the immediate transitions before processing the raised events", () => {
+			const machine = createMachine(({ state, transition, immediate }) => {
+				state("idle", transition("submit", "checking", { raise: "next" }));
+				state("checking", immediate("checked"), transition("next", "failed"));
+				state("checked", transition("next", "done"));
+				state("failed");
+				state("done");
+			});
+			machine.send("submit");
+			expect(machine.state.name).toBe("done");
+		});
+	});
+
+	describe("with a loop of eventless transitions", () => {
+		it("should throw naming the states of the loop", () => {
+			expect(() =>
+				createMachine(({ state, transition, immediate }) => {
+					state("idle", transition("go", "ping"));
+					state("ping", immediate("pong"));
+					state("pong", immediate("ping"));
+				}).send("go")
+			).toThrow(
+				"Exceeded 100 microsteps processing event 'go', there is a loop of immediate transitions or raised events between the states 'ping', 'pong'"
+			);
+		});
+
+		it("should throw on a loop of raised events with the configured limit", () => {
+			expect(() =>
+				createMachine(
+					({ state, internal }) => {
+						state("idle", internal("tick", { raise: "tick" }));
+					},
+					{},
+					{ maxMicrosteps: 10 }
+				).send("tick")
+			).toThrow(
+				"Exceeded 10 microsteps processing event 'tick', there is a loop of immediate transitions or raised events between the states 'idle'"
+			);
+		});
+
+		it("should throw on a loop in the initial transition", () => {
+			expect(() =>
+				createMachine(({ state, immediate }) => {
+					state("ping", immediate("pong"));
+					state("pong", immediate("ping"));
+				})
+			).toThrow("Exceeded 100 microsteps processing the initial transition");
+		});
+	});
+
+	describe("with actions", () => {
+		type C = { count: number };
+		const description = ({ state, transition, enter }: any) => {
+			state(
+				"a",
+				transition("next", "b", {
+					assign: (ctx: C) => ({ count: ctx.count + 1 }),
+					action: jest.fn(),
+				})
+			);
+			state("b", enter({ assign: (ctx: C) => ({ count: ctx.count + 1 }) }));
+		};
+
+		it("should return the actions from transition without calling them", () => {
+			const machine = createStatelessMachine(description);
+			const [next, , actions] = transition(
+				machine,
+				{ name: "a", context: { count: 0 } },
+				"next"
+			);
+			expect(next.name).toBe("b");
+			expect(actions).toHaveLength(1);
+			expect(actions[0].run).not.toHaveBeenCalled();
+			expect(actions[0].context).toEqual({ count: 1 });
+			expect(actions[0].event).toEqual({ type: "next" });
+		});
+
+		it("should call the actions once the transition is complete", () => {
+			const action = jest.fn();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, transition }) => {
+					state(
+						"a",
+						transition("next", "b", {
+							action: () => action(machine.state.name),
+						})
+					);
+					state("b");
+				},
+				{ count: 0 }
+			);
+			machine.send("next");
+			expect(action).toHaveBeenCalledTimes(1);
+			expect(action).toHaveBeenCalledWith("b");
+		});
+	});
+
+	describe("with effects of states that remain active", () => {
+		const initMachine = (log: string[]) =>
+			createMachine(({ state, transition, enter }) => {
+				const track = (name: string) =>
+					enter({
+						effect: () => {
+							log.push(`start ${name}`);
+							return () => {
+								log.push(`stop ${name}`);
+							};
+						},
+					});
+				state(
+					"editor",
+					track("editor"),
+					transition("close", "closed"),
+					transition("reload", "editor"),
+					state("clean", track("clean"), transition("edit", "dirty")),
+					state("dirty", track("dirty"), transition("save", "clean"))
+				);
+				state("closed");
+			});
+
+		it("should keep the effects of the states that remain active running", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			machine.send("edit");
+			machine.send("save");
+			expect(log).toEqual([
+				"start editor",
+				"start clean",
+				"stop clean",
+				"start dirty",
+				"stop dirty",
+				"start clean",
+			]);
+		});
+
+		it("should clean up the effects of the exited states", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			machine.send("edit");
+			log.length = 0;
+			machine.send("close");
+			expect(log).toEqual(["stop dirty", "stop editor"]);
+		});
+
+		it("should restart the effects of the re-entered states", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			log.length = 0;
+			machine.send("reload");
+			expect(log).toEqual([
+				"stop clean",
+				"stop editor",
+				"start editor",
+				"start clean",
+			]);
+		});
+
+		it("should keep the timers of the states that remain active running", () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine(
+				({ state, transition, after }) => {
+					state(
+						"session",
+						after(1000, "expired"),
+						state("a", transition("next", "b")),
+						state("b", transition("next", "a"))
+					);
+					state("expired");
+				},
+				{},
+				{ clock }
+			);
+			clock.advance(600);
+			machine.send("next");
+			clock.advance(600);
+			expect(machine.state.name).toBe("expired");
+		});
+	});
+
+	describe("with exit and transition effects", () => {
+		const initMachine = (log: string[]) =>
+			createMachine(({ state, transition, internal, enter, exit }) => {
+				const track = (name: string) => () => {
+					log.push(`start ${name}`);
+					return () => {
+						log.push(`stop ${name}`);
+					};
+				};
+				state(
+					"editing",
+					enter({ effect: track("enter editing") }),
+					exit({ effect: track("exit editing") }),
+					internal("ping", { effect: track("ping") }),
+					transition("close", "closed", { effect: track("close") })
+				);
+				state("closed", enter({ effect: track("enter closed") }));
+			});
+
+		it("should run the exit effects and the transition effects in order", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			machine.send("close");
+			expect(log).toEqual([
+				"start enter editing",
+				"stop enter editing",
+				"start exit editing",
+				"start close",
+				"start enter closed",
+			]);
+		});
+
+		it("should run the effects of internal transitions without restarting the enter effects", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			machine.send("ping");
+			machine.send("ping");
+			expect(log).toEqual([
+				"start enter editing",
+				"start ping",
+				"stop ping",
+				"start ping",
+			]);
+		});
+
+		it("should clean up the exit and transition effects on the next transition", () => {
+			const machine = createMachine(({ state, transition, exit }) => {
+				state(
+					"a",
+					exit({ effect: () => {} }),
+					transition("next", "b", { effect: () => () => {} })
+				);
+				state("b", transition("next", "a", { effect: () => {} }));
+			});
+			for (let i = 0; i < 1000; i++) {
+				machine.send("next");
+			}
+			expect(machine.runningEffects.length).toBe(0);
+			machine.send("next");
+			expect(machine.runningEffects.length).toBe(1);
+		});
+
+		it("should clean up the exit and transition effects when stopped", () => {
+			const log: string[] = [];
+			const machine = initMachine(log);
+			machine.send("close");
+			log.length = 0;
+			machine.stop();
+			expect(log).toEqual([
+				"stop enter closed",
+				"stop close",
+				"stop exit editing",
+			]);
+		});
+	});
+
+	describe("with invokes", () => {
+		type C = { user?: string; posts?: string[]; error?: string };
+		type E = EventObject & { data?: any; error?: Error };
+
+		it("should send the events of each invoke by its id", async () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter, internal }) => {
+					state(
+						"loading",
+						enter({
+							invoke: [
+								{ id: "user", src: async () => "jane" },
+								{ id: "posts", src: async () => ["hello"] },
+							],
+						}),
+						internal("invoke.user.done", {
+							assign: (_, event) => ({ user: event.data }),
+						}),
+						internal("invoke.posts.done", {
+							assign: (_, event) => ({ posts: event.data }),
+						})
+					);
+				},
+				{}
+			);
+			await new Promise((resolve) => setTimeout(resolve));
+			expect(machine.state.context).toEqual({ user: "jane", posts: ["hello"] });
+		});
+
+		it("should send the custom events of the invoke", async () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter, transition }) => {
+					state(
+						"saving",
+						enter({
+							invoke: {
+								src: async () => {
+									throw new Error("offline");
+								},
+								onDone: "saved",
+								onError: "failed",
+							},
+						}),
+						transition("failed", "error", {
+							assign: (_, event) => ({ error: event.error!.message }),
+						})
+					);
+					state("error");
+				},
+				{}
+			);
+			await new Promise((resolve) => setTimeout(resolve));
+			expect(machine.state.name).toBe("error");
+			expect(machine.state.context.error).toBe("offline");
+		});
+
+		it("should abort the signal of the invoke when exiting the state", () => {
+			let signal: AbortSignal | undefined;
+			const machine = createMachine(({ state, enter, transition }) => {
+				state(
+					"loading",
+					enter({
+						invoke: (_, __, s) => {
+							signal = s;
+							return new Promise(() => {});
+						},
+					}),
+					transition("cancel", "idle")
+				);
+				state("idle");
+			});
+			expect(signal!.aborted).toBe(false);
+			machine.send("cancel");
+			expect(signal!.aborted).toBe(true);
+		});
+
+		it("should abort the signal of the invoke when stopped", () => {
+			let signal: AbortSignal | undefined;
+			const machine = createMachine(({ state, enter }) => {
+				state(
+					"loading",
+					enter({
+						invoke: (_, __, s) => {
+							signal = s;
+							return new Promise(() => {});
+						},
+					})
+				);
+			});
+			machine.stop();
+			expect(signal!.aborted).toBe(true);
+		});
+
+		it("should invoke the native async functions", async () => {
+			// not compiled by TypeScript, so that it's a native async function
+			// eslint-disable-next-line no-new-func
+			const fetchUser = new Function("return async () => 'jane'")();
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter, internal }) => {
+					state(
+						"loading",
+						enter({ invoke: [{ id: "user", src: fetchUser }, "fetchPosts"] }),
+						internal("invoke.user.done", {
+							assign: (_, event) => ({ user: event.data }),
+						}),
+						internal("done", { assign: (_, event) => ({ posts: event.data }) })
+					);
+				},
+				{},
+				{ implementations: { invokes: { fetchPosts: fetchUser } } }
+			);
+			await new Promise((resolve) => setTimeout(resolve));
+			expect(machine.state.context).toEqual({ user: "jane", posts: "jane" });
+		});
+
+		it("should invoke without a signal where AbortController is not available", async () => {
+			const { AbortController } = globalThis;
+			// @ts-expect-error
+			delete globalThis.AbortController;
+			try {
+				let signal: AbortSignal | undefined;
+				const machine = createMachine<C, StateObject<C>, E>(
+					({ state, enter, transition }) => {
+						state(
+							"loading",
+							enter({
+								invoke: async (_, __, s) => {
+									signal = s;
+									return "jane";
+								},
+							}),
+							transition("done", "idle")
+						);
+						state("idle");
+					},
+					{}
+				);
+				await new Promise((resolve) => setTimeout(resolve));
+				expect(signal).toBeUndefined();
+				expect(machine.state.name).toBe("idle");
+			} finally {
+				globalThis.AbortController = AbortController;
+			}
+		});
+
+		it("should throw on an invoke without a function", () => {
+			expect(() =>
+				createMachine(({ state, enter }) => {
+					// @ts-expect-error
+					state("loading", enter({ invoke: { id: "user" } }));
+				})
+			).toThrow(
+				"The invoke must be an async function, or an object with the async function as src"
+			);
+		});
+	});
+
+	describe("with invoke retry and timeout policies", () => {
+		type C = { log: string[] };
+		type E = EventObject & { attempt?: number; delay?: number; error?: Error };
+		const flush = () => new Promise((resolve) => setTimeout(resolve));
+		const initMachine = (
+			src: () => Promise<any>,
+			options: { timeout?: number; retry?: any },
+			clock = createSimulatedClock()
+		) =>
+			createMachine<C, StateObject<C>, E>(
+				({ state, enter, internal, transition }) => {
+					state(
+						"loading",
+						enter({ invoke: { id: "load", src, ...options } }),
+						internal("invoke.load.retrying", {
+							assign: (ctx, event) => ({
+								log: ctx.log.concat(`retry ${event.attempt} in ${event.delay}`),
+							}),
+						}),
+						transition("invoke.load.done", "loaded"),
+						transition("invoke.load.error", "failed", {
+							assign: (ctx, event) => ({
+								log: ctx.log.concat(event.error!.message),
+							}),
+						})
+					);
+					state("loaded");
+					state("failed");
+				},
+				{ log: [] },
+				{ clock }
+			);
+
+		it("should retry with an exponential backoff", async () => {
+			const clock = createSimulatedClock();
+			let calls = 0;
+			const src = async () => {
+				calls++;
+				if (calls < 3) throw new Error("offline");
+				return "data";
+			};
+			const machine = initMachine(src, { retry: { delay: 100 } }, clock);
+			await flush();
+			expect(machine.state.context.log).toEqual(["retry 2 in 100"]);
+			clock.advance(100);
+			await flush();
+			expect(machine.state.context.log).toEqual([
+				"retry 2 in 100",
+				"retry 3 in 200",
+			]);
+			clock.advance(199);
+			await flush();
+			expect(calls).toBe(2);
+			clock.advance(1);
+			await flush();
+			expect(calls).toBe(3);
+			expect(machine.state.name).toBe("loaded");
+		});
+
+		it("should give up after the maximum number of attempts", async () => {
+			const clock = createSimulatedClock();
+			const src = jest.fn(async () => {
+				throw new Error("offline");
+			});
+			const machine = initMachine(
+				src,
+				{ retry: { attempts: 2, delay: 100 } },
+				clock
+			);
+			await flush();
+			clock.advance(100);
+			await flush();
+			expect(src).toHaveBeenCalledTimes(2);
+			expect(machine.state.name).toBe("failed");
+			expect(machine.state.context.log).toEqual(["retry 2 in 100", "offline"]);
+		});
+
+		it("should not retry when the retry predicate fails", async () => {
+			const src = jest.fn(async () => {
+				throw new Error("unauthorized");
+			});
+			const machine = initMachine(src, {
+				retry: {
+					shouldRetry: (error: Error) => error.message !== "unauthorized",
+				},
+			});
+			await flush();
+			expect(src).toHaveBeenCalledTimes(1);
+			expect(machine.state.name).toBe("failed");
+		});
+
+		it("should fail an attempt that times out and abort its signal", async () => {
+			const clock = createSimulatedClock();
+			let signal: AbortSignal | undefined;
+			const src = (_: any, __: any, s: AbortSignal) => {
+				signal = s;
+				return new Promise(() => {});
+			};
+			const machine = initMachine(src as any, { timeout: 500 }, clock);
+			clock.advance(500);
+			await flush();
+			expect(signal!.aborted).toBe(true);
+			expect(machine.state.name).toBe("failed");
+			expect(machine.state.context.log).toEqual([
+				"Invoke timed out after 500ms",
+			]);
+		});
+
+		it("should randomize the delay with jitter", async () => {
+			const random = jest.spyOn(Math, "random").mockReturnValue(0);
+			const src = async () => {
+				throw new Error("offline");
+			};
+			const machine = initMachine(src, { retry: { delay: 100, jitter: true } });
+			await flush();
+			random.mockRestore();
+			expect(machine.state.context.log).toEqual(["retry 2 in 50"]);
+		});
+
+		it("should cancel the pending retry when exiting the state", async () => {
+			const clock = createSimulatedClock();
+			const src = jest.fn(async () => {
+				throw new Error("offline");
+			});
+			const machine = initMachine(src, { retry: { delay: 100 } }, clock);
+			await flush();
+			machine.stop();
+			clock.advance(100);
+			await flush();
+			expect(src).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("with invoked machines", () => {
+		type C = { count?: number; result?: number; log?: string[] };
+		type E = EventObject & { data?: any };
+		const child = createStatelessMachine<C, StateObject<C>, E>(
+			({ state, final, transition, internal, enter }) => {
+				state(
+					"counting",
+					enter({ action: sendParent("started") }),
+					internal("inc", { assign: (ctx) => ({ count: ctx.count! + 1 }) }),
+					internal("ping", { action: sendParent({ type: "pong" }) }),
+					transition("finish", "done")
+				);
+				final("done", { data: (ctx) => ctx.count });
+			}
+		);
+
+		it("should start the machine on entry, and send its output when done", () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter, transition, internal }) => {
+					state(
+						"waiting",
+						enter({
+							invoke: {
+								id: "counter",
+								machine: child,
+								context: (ctx) => ({ count: ctx.count }),
+							},
+						}),
+						internal("inc", { action: sendTo("counter", "inc") }),
+						internal("finish", { action: sendTo("counter", "finish") }),
+						transition("invoke.counter.done", "done", {
+							assign: (_, event) => ({ result: event.data }),
+						})
+					);
+					state("done");
+				},
+				{ count: 1 }
+			);
+			expect(machine.children.counter).toBeDefined();
+			machine.send("inc");
+			machine.send("inc");
+			machine.send("finish");
+			expect(machine.state.name).toBe("done");
+			expect(machine.state.context.result).toBe(3);
+			expect(machine.children).toEqual({});
+		});
+
+		it("should receive the events sent with sendParent", () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter, internal }) => {
+					state(
+						"waiting",
+						enter({ invoke: { id: "counter", machine: child } }),
+						internal("started", {
+							assign: (ctx) => ({ log: ctx.log!.concat("started") }),
+						}),
+						internal("ping", { action: sendTo("counter", "ping") }),
+						internal("pong", {
+							assign: (ctx) => ({ log: ctx.log!.concat("pong") }),
+						})
+					);
+				},
+				{ log: [] }
+			);
+			machine.send("ping");
+			expect(machine.state.context.log).toEqual(["started", "pong"]);
+		});
+
+		it("should stop the machine when exiting the state", () => {
+			const cleanup = jest.fn();
+			const invoked = createStatelessMachine(({ state, enter }) => {
+				state("running", enter({ effect: () => cleanup }));
+			});
+			const machine = createMachine(({ state, enter, transition }) => {
+				state(
+					"active",
+					enter({ invoke: { id: "child", machine: invoked } }),
+					transition("cancel", "idle")
+				);
+				state("idle");
+			});
+			expect(cleanup).not.toHaveBeenCalled();
+			machine.send("cancel");
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(machine.children).toEqual({});
+		});
+
+		it("should stop the machine when the parent is stopped", () => {
+			const cleanup = jest.fn();
+			const invoked = createStatelessMachine(({ state, enter }) => {
+				state("running", enter({ effect: () => cleanup }));
+			});
+			const machine = createMachine(({ state, enter }) => {
+				state("active", enter({ invoke: { id: "child", machine: invoked } }));
+			});
+			machine.stop();
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(machine.children).toEqual({});
+		});
+	});
+
+	describe("with spawned machines", () => {
+		type U = { file?: string; progress: number };
+		type C = { uploads: ActorRef<U, StateObject<U>, E>[]; log: string[] };
+		type E = EventObject & { file?: string };
+		const upload = createStatelessMachine<U, StateObject<U>, E>(
+			({ state, final, enter, internal, transition }) => {
+				state(
+					"uploading",
+					enter({
+						action: sendParent((ctx) => ({ type: "started", file: ctx.file })),
+					}),
+					internal("progress", {
+						assign: (ctx) => ({ progress: ctx.progress + 50 }),
+					}),
+					transition("finish", "done")
+				);
+				final("done");
+			}
+		);
+		const initMachine = () =>
+			createMachine<C, StateObject<C>, E>(
+				({ state, internal }) => {
+					state(
+						"list",
+						internal("add", {
+							assign: (ctx, event, { spawn }) => ({
+								uploads: ctx.uploads.concat(
+									spawn(upload, { file: event.file, progress: 0 })
+								),
+							}),
+						}),
+						internal("started", {
+							assign: (ctx, event) => ({ log: ctx.log.concat(event.file!) }),
+						})
+					);
+				},
+				{ uploads: [], log: [] }
+			);
+
+		it("should start the spawned machines once the transition is complete", () => {
+			const machine = initMachine();
+			machine.send({ type: "add", file: "a.png" });
+			machine.send({ type: "add", file: "b.png" });
+			const [a, b] = machine.state.context.uploads;
+			expect(machine.children).toEqual({ [a.id]: a, [b.id]: b });
+			expect(machine.state.context.log).toEqual(["a.png", "b.png"]);
+
+			const states: number[] = [];
+			a.subscribe((state) => states.push(state.context.progress));
+			a.send("progress");
+			a.send("progress");
+			expect(a.state.context.progress).toBe(100);
+			expect(b.state.context.progress).toBe(0);
+			expect(states).toEqual([50, 100]);
+		});
+
+		it("should stop the spawned machines when the parent is stopped", () => {
+			const machine = initMachine();
+			machine.send({ type: "add", file: "a.png" });
+			const [a] = machine.state.context.uploads;
+			machine.stop();
+			expect(machine.children).toEqual({});
+			a.send("progress");
+			expect(a.state.context.progress).toBe(0);
+		});
+
+		it("should queue the events sent before the machine is started", () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, enter }) => {
+					state(
+						"list",
+						enter({
+							assign: (ctx, _, { spawn }) => {
+								const ref = spawn(upload, { progress: 0 });
+								ref.send("progress");
+								return { ...ctx, uploads: [ref] };
+							},
+						})
+					);
+				},
+				{ uploads: [], log: [] }
+			);
+			const [a] = machine.state.context.uploads;
+			expect(a.state.context.progress).toBe(50);
+		});
+
+		it("should start the machines spawned by an action immediately", () => {
+			let ref: ActorRef<U, StateObject<U>, E> | undefined;
+			const machine = createMachine(({ state, enter }) => {
+				state(
+					"list",
+					enter({
+						action: (_, __, { spawn }) =>
+							(ref = spawn(upload, { progress: 0 }, { id: "a" })),
+					})
+				);
+			});
+			expect(machine.children).toEqual({ a: ref });
+			ref!.send("finish");
+			expect(ref!.state.final).toBe(true);
+		});
+
+		it("should run the spawned machines on the clock of the parent", () => {
+			const clock = createSimulatedClock();
+			const timer = createStatelessMachine(({ state, after }) => {
+				state("waiting", after(100, "done"));
+				state("done");
+			});
+			let ref: ActorRef<{}, StateObject<{}>, EventObject> | undefined;
+			createMachine(
+				({ state, enter }) => {
+					state(
+						"list",
+						enter({ action: (_, __, { spawn }) => (ref = spawn(timer)) })
+					);
+				},
+				{},
+				{ clock }
+			);
+			expect(ref!.state.name).toBe("waiting");
+			clock.advance(200);
+			expect(ref!.state.name).toBe("done");
+		});
+
+		it("should number the spawned machines among the children of the parent", () => {
+			const machine = initMachine();
+			const other = initMachine();
+			machine.send({ type: "add", file: "a.png" });
+			machine.send({ type: "add", file: "b.png" });
+			other.send({ type: "add", file: "c.png" });
+			expect(Object.keys(machine.children)).toEqual(["spawn.1", "spawn.2"]);
+			expect(Object.keys(other.children)).toEqual(["spawn.1"]);
+
+			machine.state.context.uploads[0].stop();
+			machine.send({ type: "add", file: "d.png" });
+			expect(Object.keys(machine.children)).toEqual(["spawn.2", "spawn.3"]);
+		});
+
+		it("should throw when starting a spawned machine without a service", () => {
+			const machine = createStatelessMachine<C, StateObject<C>, E>(
+				({ state, internal }) => {
+					state(
+						"list",
+						internal("add", {
+							assign: (_, __, { spawn }) => ({
+								uploads: [spawn(upload, { progress: 0 })],
+							}),
+						})
+					);
+				}
+			);
+			const [, , actions] = transition(
+				machine,
+				{ name: "list", context: { uploads: [], log: [] } },
+				"add"
+			);
+			expect(() => runActions(actions)).toThrow(
+				"Machines can only be spawned by a machine run by useMachine or createService"
+			);
+		});
+	});
+
+	describe("with deferred events", () => {
+		type C = { log: string[] };
+		type E = EventObject & { id?: number };
+		const initMachine = (options = {}) =>
+			createMachine<C, StateObject<C>, E>(
+				({ state, transition, internal, defer }) => {
+					state(
+						"loading",
+						defer("submit", "form.*"),
+						transition("loaded", "ready")
+					);
+					state(
+						"ready",
+						internal("submit", {
+							assign: (ctx, event) => ({
+								log: ctx.log.concat(`submit ${event.id}`),
+							}),
+						}),
+						internal("form.*", {
+							reduce: (ctx, event) => ({ log: ctx.log.concat(event.type) }),
+						})
+					);
+				},
+				{ log: [] },
+				options
+			);
+
+		it("should replay the deferred events in order once they're handled", () => {
+			const machine = initMachine();
+			machine.send({ type: "submit", id: 1 });
+			machine.send("form.reset");
+			machine.send({ type: "submit", id: 2 });
+			expect(machine.state.deferred).toEqual([
+				{ type: "submit", id: 1 },
+				{ type: "form.reset" },
+				{ type: "submit", id: 2 },
+			]);
+			expect(machine.state.context.log).toEqual([]);
+
+			machine.send("loaded");
+			expect(machine.state.name).toBe("ready");
+			expect(machine.state.context.log).toEqual([
+				"submit 1",
+				"form.reset",
+				"submit 2",
+			]);
+			expect(machine.state.deferred).toBeUndefined();
+		});
+
+		it("should drop the events that are not deferred", () => {
+			const machine = initMachine();
+			machine.send("cancel");
+			expect(machine.state.deferred).toBeUndefined();
+		});
+
+		it("should keep the deferred events until a state handles them", () => {
+			const machine = createMachine<C, StateObject<C>, E>(
+				({ state, transition, defer }) => {
+					state("a", defer("submit"), transition("next", "b"));
+					state("b", transition("next", "c"));
+					state(
+						"c",
+						transition("submit", "d", {
+							assign: (ctx) => ({ log: ctx.log.concat("submit") }),
+						})
+					);
+					state("d");
+				},
+				{ log: [] }
+			);
+			machine.send("submit");
+			machine.send("next");
+			expect(machine.state.name).toBe("b");
+			expect(machine.state.deferred).toEqual([{ type: "submit" }]);
+			machine.send("next");
+			expect(machine.state.name).toBe("d");
+			expect(machine.state.context.log).toEqual(["submit"]);
+		});
+
+		it("should discard the oldest events when the buffer is full", () => {
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			const machine = initMachine({ maxDeferred: 2 });
+			machine.send({ type: "submit", id: 1 });
+			machine.send({ type: "submit", id: 2 });
+			machine.send({ type: "submit", id: 3 });
+			expect(machine.state.deferred).toEqual([
+				{ type: "submit", id: 2 },
+				{ type: "submit", id: 3 },
+			]);
+			expect(warn).toHaveBeenCalledWith(
+				"Warning: Discarded the deferred event 'submit', as more than 2 events have been deferred. Increase the maxDeferred option if needed."
+			);
+			warn.mockRestore();
+		});
+	});
+
+	describe("with delayed sends", () => {
+		type C = { saved: number };
+
+		it("should send the events scheduled by an effect after the delay", () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, enter, transition }) => {
+					state(
+						"toast",
+						enter({
+							effect: (_, __, send) => {
+								send.sendAfter("dismiss", 3000);
+							},
+						}),
+						transition("dismiss", "hidden")
+					);
+					state("hidden");
+				},
+				{ saved: 0 },
+				{ clock }
+			);
+			clock.advance(2999);
+			expect(machine.state.name).toBe("toast");
+			clock.advance(1);
+			expect(machine.state.name).toBe("hidden");
+		});
+
+		it("should reschedule and cancel the sends by their id", () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, internal }) => {
+					state(
+						"editing",
+						internal("edit", {
+							action: sendAfter("save", 1000, { id: "autosave" }),
+						}),
+						internal("discard", { action: cancel("autosave") }),
+						internal("save", { assign: (ctx) => ({ saved: ctx.saved + 1 }) })
+					);
+				},
+				{ saved: 0 },
+				{ clock }
+			);
+			machine.send("edit");
+			clock.advance(500);
+			machine.send("edit");
+			clock.advance(500);
+			expect(machine.state.context.saved).toBe(0);
+			clock.advance(500);
+			expect(machine.state.context.saved).toBe(1);
+
+			machine.send("edit");
+			machine.send("discard");
+			clock.advance(1000);
+			expect(machine.state.context.saved).toBe(1);
+		});
+
+		it("should cancel the sends of an effect when exiting its state", () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, enter, transition, internal }) => {
+					state(
+						"editor",
+						internal("save", { assign: (ctx) => ({ saved: ctx.saved + 1 }) }),
+						state(
+							"dirty",
+							enter({
+								effect: (_, __, send) => {
+									send.sendAfter("save", 1000);
+								},
+							}),
+							transition("close", "clean")
+						),
+						state("clean")
+					);
+				},
+				{ saved: 0 },
+				{ clock }
+			);
+			machine.send("close");
+			clock.advance(1000);
+			expect(machine.state.context.saved).toBe(0);
+		});
+
+		it("should cancel the sends of an enter action when exiting its state", () => {
+			type D = { dismissed: number };
+			const clock = createSimulatedClock();
+			const machine = createMachine<D, StateObject<D>, EventObject>(
+				({ state, enter, transition, internal }) => {
+					state(
+						"app",
+						internal("dismiss", {
+							assign: (ctx) => ({ dismissed: ctx.dismissed + 1 }),
+						}),
+						state(
+							"toast",
+							enter({ action: sendAfter("dismiss", 1000) }),
+							transition("show", "toast"),
+							transition("hide", "hidden")
+						),
+						state("hidden", transition("show", "toast"))
+					);
+				},
+				{ dismissed: 0 },
+				{ clock }
+			);
+			clock.advance(500);
+			machine.send("show");
+			clock.advance(500);
+			expect(machine.state.context.dismissed).toBe(0);
+			clock.advance(500);
+			expect(machine.state.context.dismissed).toBe(1);
+
+			machine.send("hide");
+			machine.send("show");
+			machine.send("hide");
+			clock.advance(1000);
+			expect(machine.state.context.dismissed).toBe(1);
+		});
+
+		it("should cancel the pending sends when the machine is stopped", () => {
+			const clock = createSimulatedClock();
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				({ state, enter, internal }) => {
+					state(
+						"editing",
+						enter({ action: sendAfter("save", 1000) }),
+						internal("save", { assign: (ctx) => ({ saved: ctx.saved + 1 }) })
+					);
+				},
+				{ saved: 0 },
+				{ clock }
+			);
+			machine.stop();
+			clock.advance(1000);
+			expect(machine.state.context.saved).toBe(0);
+		});
+	});
+
+	describe("with named implementations", () => {
+		type C = { count: number; log: string[] };
+		const description = ({ state, transition, internal, enter }: any) => {
+			state(
+				"counting",
+				enter({ effect: "track" }),
+				internal("inc", { guard: "canInc", assign: "inc", action: "log" }),
+				transition("load", "loading")
+			);
+			state(
+				"loading",
+				enter({ invoke: "load" }),
+				transition("done", "counting")
+			);
+		};
+
+		it("should resolve the hooks against the implementations", async () => {
+			const log: string[] = [];
+			const machine = createMachine<C, StateObject<C>, EventObject>(
+				description,
+				{ count: 0, log: [] },
+				{
+					implementations: {
+						guards: { canInc: (ctx) => ctx.count < 2 },
+						assigns: { inc: (ctx) => ({ count: ctx.count + 1 }) },
+						actions: { log: (ctx) => log.push(`count ${ctx.count}`) },
+						effects: { track: () => void log.push("track") },
+						invokes: { load: async () => "loaded" },
+					},
+				}
+			);
+			machine.send("inc");
+			machine.send("inc");
+			machine.send("inc");
+			expect(machine.state.context.count).toBe(2);
+			machine.send("load");
+			await new Promise((resolve) => setTimeout(resolve));
+			expect(machine.state.name).toBe("counting");
+			expect(log).toEqual(["track", "count 1", "count 2", "track"]);
+		});
+
+		it("should create a variant of the machine with provide", () => {
+			const machine = createStatelessMachine<C, StateObject<C>, EventObject>(
+				description,
+				{
+					implementations: {
+						guards: { canInc: () => true },
+						assigns: { inc: (ctx) => ({ count: ctx.count + 1 }) },
+						actions: { log: () => {} },
+						effects: { track: () => {} },
+					},
+				}
+			);
+			const variant = machine.provide({
+				assigns: { inc: (ctx) => ({ count: ctx.count + 10 }) },
+			});
+			const [initial] = transition(
+				variant,
+				{ name: null as any, context: { count: 0, log: [] } },
+				{ type: null as any }
+			);
+			expect(transition(machine, initial, "inc")[0].context.count).toBe(1);
+			expect(transition(variant, initial, "inc")[0].context.count).toBe(10);
+		});
+
+		it("should report the missing implementations", () => {
+			const machine = createStatelessMachine(description, {
+				implementations: { guards: { canInc: () => true } },
+			});
+			expect(validate(machine)).toEqual([
+				"Missing implementation of the effect 'track'",
+				"Missing implementation of the assign 'inc'",
+				"Missing implementation of the action 'log'",
+				"Missing implementation of the invoke 'load'",
+			]);
+			expect(
+				validate(
+					machine.provide({
+						assigns: { inc: {} },
+						actions: { log: () => {} },
+						effects: { track: () => {} },
+						invokes: { load: async () => {} },
+					})
+				)
+			).toEqual([]);
+		});
+
+		it("should throw when transitioning with a missing implementation", () => {
+			const machine = createStatelessMachine(description);
+			expect(() =>
+				transition(
+					machine,
+					{ name: null as any, context: {} },
+					{
+						type: null as any,
+					}
+				)
+			).toThrow("Missing implementation of the effect 'track'");
+		});
+	});
+
+	describe("with guard combinators", () => {
+		type C = { name: string; locked: boolean };
+		type E = EventObject & { name?: string };
+		const initMachine = (guard: any) =>
+			createStatelessMachine<C, StateObject<C>, E>(
+				({ state, transition }) => {
+					state("editing", transition("save", "saved", { guard }));
+					state("saved");
+				},
+				{
+					implementations: {
+						guards: {
+							isLocked: (ctx) => ctx.locked,
+							minLength: (ctx, _, params) => ctx.name.length >= params.min,
+						},
+					},
+				}
+			);
+		const check = (guard: any, context: C) => {
+			const machine = initMachine(guard);
+			const [initial] = transition(
+				machine,
+				{ name: null as any, context },
+				{ type: null as any }
+			);
+			return transition(machine, initial, "save")[0].name === "saved";
+		};
+
+		it("should pass the params of a guard object to its implementation", () => {
+			const guard = { type: "minLength", params: { min: 3 } };
+			expect(check(guard, { name: "jo", locked: false })).toBe(false);
+			expect(check(guard, { name: "joe", locked: false })).toBe(true);
+		});
+
+		it("should combine the guards with and, or and not", () => {
+			const guard = and(
+				not("isLocked"),
+				or({ type: "minLength", params: { min: 3 } }, (ctx: C) =>
+					ctx.name.startsWith("@")
+				)
+			);
+			expect(check(guard, { name: "joe", locked: false })).toBe(true);
+			expect(check(guard, { name: "@j", locked: false })).toBe(true);
+			expect(check(guard, { name: "jo", locked: false })).toBe(false);
+			expect(check(guard, { name: "joe", locked: true })).toBe(false);
+		});
+
+		it("should keep the guards inspectable", () => {
+			const machine = initMachine([
+				"isLocked",
+				or(not("isLocked"), { type: "minLength", params: { min: 3 } }),
+			]);
+			const { editing } = machine.states as Record<string, MachineState>;
+			expect(editing.transitions.save[0].guards[1]).toEqual({
+				type: "or",
+				guards: [
+					{ type: "not", guards: ["isLocked"] },
+					{ type: "minLength", params: { min: 3 } },
+				],
+			});
+		});
+
+		it("should report the missing guards of the combinators", () => {
+			const machine = initMachine(
+				and(not("isAdmin"), { type: "isOwner", params: { id: 1 } })
+			);
+			expect(validate(machine)).toEqual([
+				"Missing implementation of the guard 'isAdmin'",
+				"Missing implementation of the guard 'isOwner'",
+			]);
+		});
+	});
 });
 
 // 	const machine = createMachine(({ state, transition, immediate }) => {
@@ -0,0 +1,163 @@
+import { createMachine, or, not } from "../core";
+import { toMermaid, toDOT } from "../diagram";
+
+describe("diagrams", () => {
+	const machine = createMachine(
+		({
+			state,
+			parallel,
+			final,
+			transition,
+			immediate,
+			internal,
+			after,
+			initial,
+			history,
+		}) => {
+			state("idle", transition("edit", "editor", { guard: "canEdit" }));
+			state(
+				"editor",
+				initial("dirty"),
+				history("last", { deep: true }),
+				state("clean", transition("edit", "dirty")),
+				state(
+					"dirty",
+					internal("change"),
+					after(1000, "clean"),
+					immediate("clean", {
+						guard: ["isEmpty", or("isSaved", not("isBusy"))],
+					})
+				),
+				transition("close", "closed")
+			);
+			parallel(
+				"sync",
+				state("up"),
+				state("down"),
+				transition("done", "closed")
+			);
+			final("closed");
+		}
+	);
+
+	it("should draw the machine as a Mermaid state diagram", () => {
+		expect(toMermaid(machine)).toBe(
+			[
+				"stateDiagram-v2",
+				"  [*] --> idle",
+				'  state "idle" as idle',
+				'  state "editor" as editor',
+				"  state editor {",
+				"    [*] --> editor__dirty",
+				'    state "H*" as editor__last',
+				'    state "clean" as editor__clean',
+				'    state "dirty" as editor__dirty',
+				"  }",
+				'  state "sync" as sync',
+				"  state sync {",
+				'    state "up" as sync__up',
+				"    --",
+				'    state "down" as sync__down',
+				"  }",
+				'  state "closed" as closed',
+				"  closed --> [*]",
+				"  idle --> editor : edit [canEdit]",
+				"  editor --> closed : close",
+				"  editor__clean --> editor__dirty : edit",
+				"  editor__dirty --> editor__dirty : change (internal)",
+				"  editor__dirty --> editor__clean : immediate [isEmpty && (isSaved || !isBusy)]",
+				"  editor__dirty --> editor__clean : after 1000ms",
+				"  sync --> closed : done",
+				"",
+			].join("\n")
+		);
+	});
+
+	it("should draw the machine as a DOT digraph", () => {
+		expect(toDOT(machine, { id: "doc" })).toBe(
+			[
+				'digraph "doc" {',
+				"  compound=true;",
+				'  node [shape=box, style=rounded, fontname="sans-serif"];',
+				'  edge [fontname="sans-serif", fontsize=10];',
+				'  "idle" [label="idle"];',
+				'  subgraph "cluster_editor" {',
+				'    label="editor";',
+				"    style=rounded;",
+				'    "editor" [shape=point];',
+				'    "editor.last" [label="H*", shape=circle];',
+				'    "editor.clean" [label="clean"];',
+				'    "editor.dirty" [label="dirty"];',
+				'    "editor" -> "editor.dirty";',
+				"  }",
+				'  subgraph "cluster_sync" {',
+				'    label="sync";',
+				"    style=dashed;",
+				'    "sync" [shape=point];',
+				'    "sync.up" [label="up"];',
+				'    "sync.down" [label="down"];',
+				'    "sync" -> "sync.up";',
+				'    "sync" -> "sync.down";',
+				"  }",
+				'  "closed" [label="closed", peripheries=2];',
+				'  "__initial" [shape=point];',
+				'  "__initial" -> "idle";',
+				'  "idle" -> "editor" [label="edit [canEdit]", lhead="cluster_editor"];',
+				'  "editor" -> "closed" [label="close", ltail="cluster_editor"];',
+				'  "editor.clean" -> "editor.dirty" [label="edit"];',
+				'  "editor.dirty" -> "editor.dirty" [label="change (internal)", style=dotted];',
+				'  "editor.dirty" -> "editor.clean" [label="immediate [isEmpty && (isSaved || !isBusy)]", style=dashed];',
+				'  "editor.dirty" -> "editor.clean" [label="after 1000ms"];',
+				'  "sync" -> "closed" [label="done", ltail="cluster_sync"];',
+				"}",
+				"",
+			].join("\n")
+		);
+	});
+
+	it("should label the guards by the names of their functions", () => {
+		const machine = createMachine(({ state, transition }) => {
+			state(
+				"a",
+				transition("go", "b", {
+					guard: function isReady() {
+						return true;
+					},
+				})
+			);
+			state("b");
+		});
+
+		expect(toMermaid(machine)).toContain("a --> b : go [isReady]");
+		expect(toDOT(machine)).toContain('"a" -> "b" [label="go [isReady]"];');
+	});
+
+	it("should point to the nested initial state of the machine", () => {
+		const machine = createMachine(
+			({ state }) => {
+				state("idle");
+				state("editor", state("clean"), state("dirty"));
+			},
+			{ initial: "editor.dirty" }
+		);
+
+		expect(toMermaid(machine)).toContain("\n  [*] --> editor__dirty\n");
+		expect(toDOT(machine)).toContain('"__initial" -> "editor.dirty";');
+	});
+
+	it("should keep the Mermaid ids of the distinct states distinct", () => {
+		const machine = createMachine(({ state, transition }) => {
+			state("a", state("b"), transition("go", "a_b"));
+			state("a_b");
+		});
+
+		expect(toMermaid(machine)).toContain(
+			[
+				'  state "b" as a__b',
+				"  }",
+				'  state "a_b" as a_005fb',
+				"  a --> a_005fb : go",
+			].join("\n")
+		);
+	});
+});
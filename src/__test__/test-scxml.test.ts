@@ -0,0 +1,276 @@
+import { createMachine, or, not } from "../core";
+import { createService } from "../service";
+import { fromSCXML, toSCXML } from "../scxml";
+
+describe("SCXML", () => {
+	const scxml = `<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" xmlns:machine="https://github.com/chaance/react-machine" version="1.0" initial="idle">
+  <state id="idle">
+    <transition event="edit" target="editor" cond="canEdit">
+      <machine:action name="track"/>
+    </transition>
+  </state>
+  <state id="editor" initial="editor.dirty">
+    <onentry>
+      <machine:assign name="load"/>
+      <raise event="editor.ready"/>
+      <machine:effect name="autosave"/>
+    </onentry>
+    <invoke src="upload"/>
+    <onexit>
+      <machine:action name="save"/>
+    </onexit>
+    <transition event="close" target="closed"/>
+    <history id="editor.last" type="deep"/>
+    <state id="editor.clean">
+      <transition event="edit" target="editor.dirty"/>
+    </state>
+    <state id="editor.dirty">
+      <transition event="change">
+        <machine:reduce name="change"/>
+      </transition>
+      <transition target="editor.clean" cond="isEmpty &amp;&amp; (isSaved || !isBusy)"/>
+    </state>
+  </state>
+  <parallel id="sync">
+    <state id="sync.up"/>
+    <state id="sync.down"/>
+  </parallel>
+  <final id="closed"/>
+</scxml>
+`;
+
+	it("should write the machine as SCXML", () => {
+		const machine = createMachine(
+			({
+				state,
+				parallel,
+				final,
+				transition,
+				immediate,
+				internal,
+				enter,
+				exit,
+				initial,
+				history,
+			}) => {
+				state(
+					"idle",
+					transition("edit", "editor", { guard: "canEdit", action: "track" })
+				);
+				state(
+					"editor",
+					enter({ assign: "load", raise: "editor.ready", effect: "autosave" }),
+					enter({ invoke: "upload" }),
+					exit({ action: function save() {} }),
+					initial("dirty"),
+					history("last", { deep: true }),
+					state("clean", transition("edit", "dirty")),
+					state(
+						"dirty",
+						internal("change", { reduce: "change" }),
+						immediate("clean", {
+							guard: ["isEmpty", or("isSaved", not("isBusy"))],
+						})
+					),
+					transition("close", "closed")
+				);
+				parallel("sync", state("up"), state("down"));
+				final("closed");
+			}
+		);
+
+		expect(toSCXML(machine)).toBe(scxml.replace(' initial="idle"', ""));
+	});
+
+	it("should write the machine read from SCXML as the same SCXML", () => {
+		expect(toSCXML(fromSCXML(scxml))).toBe(scxml);
+	});
+
+	it("should read the states, transitions and hooks from SCXML", () => {
+		const effects: string[] = [];
+		const machine = fromSCXML(scxml, {
+			guards: {
+				canEdit: () => true,
+				isEmpty: (ctx: any) => ctx.text === "",
+				isSaved: () => false,
+				isBusy: () => false,
+			},
+			assigns: { load: () => ({ text: "hello" }) },
+			reducers: { change: (ctx: any, event: any) => ({ ...ctx, ...event }) },
+			actions: { track: () => effects.push("track"), save: () => {} },
+			effects: { autosave: () => void effects.push("autosave") },
+			invokes: { upload: () => new Promise(() => {}) },
+		});
+		const service = createService(machine, { text: "" });
+
+		service.send("edit");
+		expect(service.state.name).toBe("editor.dirty");
+		expect(service.state.context).toEqual({ text: "hello" });
+		expect(effects).toEqual(["track", "autosave"]);
+
+		const change = { type: "change", text: "" };
+		service.send(change);
+		expect(service.state.name).toBe("editor.clean");
+
+		service.send("close");
+		expect(service.state.name).toBe("closed");
+		service.stop();
+	});
+
+	it("should read the SCXML without namespaces and with initial elements", () => {
+		const machine = fromSCXML(`
+			<!-- a light switch -->
+			<scxml>
+				<state id="light">
+					<initial><transition target="off"/></initial>
+					<state id="on"><transition event="toggle" target="off"/></state>
+					<state id="off"><transition event="toggle power" target="on"/></state>
+				</state>
+			</scxml>
+		`);
+		const service = createService(machine);
+
+		expect(service.state.name).toBe("light.off");
+		service.send("power");
+		expect(service.state.name).toBe("light.on");
+		service.send("toggle");
+		expect(service.state.name).toBe("light.off");
+		service.stop();
+	});
+
+	it("should throw for the SCXML that can not be read", () => {
+		expect(() => fromSCXML("<state/>")).toThrow(
+			"The root element of the SCXML document must be <scxml>"
+		);
+		expect(() =>
+			fromSCXML(`<scxml><state id="a"><datamodel/></state></scxml>`)
+		).toThrow("Unsupported SCXML element <datamodel>");
+		expect(() =>
+			fromSCXML(
+				`<scxml><state id="a"><transition event="b" target="b"/></state></scxml>`
+			)
+		).toThrow("Unknown SCXML target 'b'");
+		expect(() =>
+			fromSCXML(
+				`<scxml><state id="a"><transition event="b" cond="a == 1"/></state></scxml>`
+			)
+		).toThrow("Unsupported SCXML cond 'a == 1'");
+		expect(() =>
+			fromSCXML(
+				`<scxml><state id="a"><initial/><state id="b"/></state></scxml>`
+			)
+		).toThrow("The SCXML <initial> must have a <transition> with a target");
+	});
+
+	it("should keep the nested initial states of the SCXML", () => {
+		const machine = createMachine(
+			({ state }) => {
+				state("idle");
+				state("editor", state("clean"), state("dirty"));
+			},
+			{ initial: "editor.dirty" }
+		);
+		const xml = toSCXML(machine);
+		expect(xml).toContain(' initial="editor.dirty"');
+		expect(toSCXML(fromSCXML(xml))).toBe(xml);
+
+		const service = createService(fromSCXML(xml));
+		expect(service.state.name).toBe("editor.dirty");
+		service.stop();
+
+		const nested = createService(
+			fromSCXML(`
+				<scxml initial="a">
+					<state id="a" initial="a.b.c">
+						<state id="a.b">
+							<state id="a.b.d"/>
+							<state id="a.b.c"/>
+						</state>
+					</state>
+				</scxml>
+			`)
+		);
+		expect(nested.state.name).toBe("a.b.c");
+		nested.stop();
+	});
+
+	it("should resolve the targets from the root of the document", () => {
+		const xml = (target: string) => `
+			<scxml>
+				<state id="x">
+					<state id="inner"><transition event="go" target="${target}"/></state>
+					<state id="x.a"/>
+				</state>
+				<state id="a"/>
+				<state id="b"/>
+			</scxml>
+		`;
+		const service = createService(fromSCXML(xml("b")));
+		service.send("go");
+		expect(service.state.name).toBe("b");
+		service.stop();
+
+		expect(() => fromSCXML(xml("a"))).toThrow(
+			"The SCXML target 'a' is shadowed by the state 'x.a'"
+		);
+	});
+
+	it("should throw for the machines that can not be written as SCXML", () => {
+		expect(() =>
+			toSCXML(
+				createMachine(({ state, after }) => {
+					state("a", after(1000, "b"));
+					state("b");
+				})
+			)
+		).toThrow(
+			"The tags, deferred events and delayed transitions of the state 'a' can not be written as SCXML"
+		);
+		expect(() =>
+			toSCXML(
+				createMachine(({ state, transition }) => {
+					state(
+						"a",
+						transition("b", "a", { guard: { type: "max", params: 1 } })
+					);
+				})
+			)
+		).toThrow("The params of the guard 'max' can not be written as SCXML");
+	});
+
+	it("should throw for the anonymous hooks", () => {
+		const write = (options: any) =>
+			toSCXML(
+				createMachine(({ state, transition, enter }) => {
+					state("a", transition("go", "b", options.transition));
+					state("b", enter(options.enter || {}));
+				})
+			);
+
+		expect(() => write({ transition: { guard: () => true } })).toThrow(
+			"The anonymous guard hooks can not be written as SCXML, use named implementations instead"
+		);
+		expect(() => write({ transition: { guard: not(() => true) } })).toThrow(
+			"The anonymous guard hooks can not be written as SCXML"
+		);
+		expect(() => write({ transition: { action: () => {} } })).toThrow(
+			"The anonymous action hooks can not be written as SCXML"
+		);
+		expect(() => write({ transition: { assign: () => ({}) } })).toThrow(
+			"The anonymous assign hooks can not be written as SCXML"
+		);
+		expect(() => write({ transition: { reduce: (ctx: any) => ctx } })).toThrow(
+			"The anonymous reduce hooks can not be written as SCXML"
+		);
+		expect(() => write({ enter: { effect: () => {} } })).toThrow(
+			"The anonymous effect hooks can not be written as SCXML"
+		);
+		expect(() => write({ enter: { invoke: async () => {} } })).toThrow(
+			"The anonymous invoke hooks can not be written as SCXML"
+		);
+		expect(() =>
+			write({ transition: { guard: function isValid() {} } })
+		).not.toThrow();
+	});
+});
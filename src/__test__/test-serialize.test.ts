@@ -0,0 +1,117 @@
+import { createMachine, and, not } from "../core";
+import { toJSON } from "../serialize";
+
+describe("toJSON", () => {
+	const machine = createMachine(
+		({
+			state,
+			parallel,
+			final,
+			transition,
+			immediate,
+			internal,
+			after,
+			enter,
+			exit,
+			initial,
+			tags,
+			history,
+			on,
+		}) => {
+			on(transition("reset", "idle"));
+			state(
+				"idle",
+				transition("edit", "editor", { guard: "canEdit", action: "track" })
+			);
+			state(
+				"editor",
+				enter({ assign: "load", effect: "autosave", raise: "editor.ready" }),
+				exit({ action: function save() {} }),
+				initial("dirty"),
+				history("last", { deep: true }),
+				state("clean", tags("saved"), transition("edit", "dirty")),
+				state(
+					"dirty",
+					internal("change", { assign: (ctx: any) => ctx }),
+					after(1000, "clean", { guard: and("isValid", not("isBusy")) }),
+					immediate("clean", {
+						guard: { type: "isEmpty", params: { trim: true } },
+					})
+				),
+				transition("close", "closed")
+			);
+			parallel(
+				"sync",
+				enter({ invoke: { id: "upload", src: async function upload() {} } }),
+				state("up"),
+				state("down")
+			);
+			final("closed");
+		}
+	);
+
+	it("should serialize the machine into an XState machine config", () => {
+		expect(toJSON(machine, { id: "doc" })).toEqual({
+			id: "doc",
+			initial: "idle",
+			on: { reset: [{ target: "#doc.idle" }] },
+			states: {
+				idle: {
+					on: {
+						edit: [
+							{ target: "#doc.editor", cond: "canEdit", actions: ["track"] },
+						],
+					},
+				},
+				editor: {
+					initial: "dirty",
+					entry: [
+						"load",
+						{ type: "xstate.raise", event: { type: "editor.ready" } },
+					],
+					exit: ["save"],
+					invoke: [{ id: "editor:invocation[0]", src: "autosave" }],
+					on: { close: [{ target: "#doc.closed" }] },
+					states: {
+						last: { type: "history", history: "deep" },
+						clean: {
+							tags: ["saved"],
+							on: { edit: [{ target: "#doc.editor.dirty" }] },
+						},
+						dirty: {
+							on: { change: [{ actions: ["assign"] }] },
+							always: [
+								{
+									target: "#doc.editor.clean",
+									cond: { type: "isEmpty", params: { trim: true } },
+								},
+							],
+							after: {
+								1000: [
+									{
+										target: "#doc.editor.clean",
+										cond: {
+											type: "and",
+											guards: ["isValid", { type: "not", guards: ["isBusy"] }],
+										},
+									},
+								],
+							},
+						},
+					},
+				},
+				sync: {
+					type: "parallel",
+					invoke: [{ id: "upload", src: "upload" }],
+					states: { up: {}, down: {} },
+				},
+				closed: { type: "final" },
+			},
+		});
+	});
+
+	it("should produce plain JSON", () => {
+		const json = toJSON(machine);
+		expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+	});
+});
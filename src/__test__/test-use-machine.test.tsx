@@ -1,3 +1,10 @@
+import * as React from "react";
+import { render, unmountComponentAtNode } from "react-dom";
+import { act } from "react-dom/test-utils";
+import { useMachine, useActor } from "../hooks";
+import { createMachine } from "../core";
+import { ActorRef, EventObject, StateObject } from "../types";
+
 // /* eslint-disable require-await */
 // import * as React from "react";
 // import { render } from "react-dom";
@@ -182,6 +189,218 @@
 // 	);
 // }
 
+describe("useMachine", () => {
+	let root: HTMLDivElement;
+
+	beforeEach(() => {
+		root = document.createElement("div");
+		document.body.appendChild(root);
+	});
+
+	afterEach(() => {
+		unmountComponentAtNode(root);
+		root.remove();
+	});
+
+	describe("with actions", () => {
+		it("should call each action once, in order, before the effects", () => {
+			const calls: string[] = [];
+			let send: (event: string) => void = () => {};
+
+			function App() {
+				const [state, sendEvent] = useMachine(
+					({ state, transition, enter, exit }) => {
+						state(
+							"a",
+							exit({ action: () => calls.push("exit a") }),
+							transition("next", "b", { action: () => calls.push("next") })
+						);
+						state(
+							"b",
+							enter({
+								action: () => calls.push("enter b"),
+								effect: () => {
+									calls.push("effect b");
+								},
+							}),
+							transition("next", "c")
+						);
+						state("c", enter({ action: () => calls.push("enter c") }));
+					}
+				);
+				send = sendEvent;
+				return <div>{state.name}</div>;
+			}
+
+			act(() => {
+				render(
+					<React.StrictMode>
+						<App />
+					</React.StrictMode>,
+					root
+				);
+			});
+
+			act(() => {
+				send("next");
+			});
+
+			expect(root.textContent).toBe("b");
+			expect(calls).toEqual(["exit a", "next", "enter b", "effect b"]);
+		});
+
+		it("should call the actions of every event sent before rendering", () => {
+			const calls: string[] = [];
+			let send: (event: string) => void = () => {};
+
+			function App() {
+				const [state, sendEvent] = useMachine(({ state, transition }) => {
+					state(
+						"a",
+						transition("next", "b", { action: () => calls.push("a") })
+					);
+					state(
+						"b",
+						transition("next", "c", { action: () => calls.push("b") })
+					);
+					state("c");
+				});
+				send = sendEvent;
+				return <div>{state.name}</div>;
+			}
+
+			act(() => {
+				render(
+					<React.StrictMode>
+						<App />
+					</React.StrictMode>,
+					root
+				);
+			});
+
+			act(() => {
+				send("next");
+				send("next");
+			});
+
+			expect(root.textContent).toBe("c");
+			expect(calls).toEqual(["a", "b"]);
+		});
+	});
+
+	describe("with effects", () => {
+		it("should keep the effects of the states that remain active running", () => {
+			const log: string[] = [];
+			let send: (event: string) => void = () => {};
+			const track = (name: string) => () => {
+				log.push(`start ${name}`);
+				return () => {
+					log.push(`stop ${name}`);
+				};
+			};
+
+			function App() {
+				const [state, sendEvent] = useMachine(
+					({ state, transition, enter }) => {
+						state(
+							"editor",
+							enter({ effect: track("editor") }),
+							state("clean", transition("edit", "dirty")),
+							state("dirty", enter({ effect: track("dirty") }))
+						);
+					}
+				);
+				send = sendEvent;
+				return <div>{state.name}</div>;
+			}
+
+			act(() => {
+				render(<App />, root);
+			});
+			act(() => {
+				send("edit");
+			});
+			act(() => {
+				unmountComponentAtNode(root);
+			});
+
+			expect(log).toEqual([
+				"start editor",
+				"start dirty",
+				"stop dirty",
+				"stop editor",
+			]);
+		});
+	});
+
+	describe("with spawned machines", () => {
+		type Upload = { file: string; progress: number };
+		const cleanup = jest.fn();
+		const upload = createMachine<Upload, StateObject<Upload>, EventObject>(
+			({ state, enter, internal }) => {
+				state(
+					"uploading",
+					enter({ effect: () => cleanup }),
+					internal("progress", {
+						assign: (ctx) => ({ progress: ctx.progress + 50 }),
+					})
+				);
+			}
+		);
+
+		it("should render the state of a spawned machine with useActor", () => {
+			type Ref = ActorRef<Upload, StateObject<Upload>, EventObject>;
+
+			function Item({ actor }: { actor: Ref }) {
+				const [state, send] = useActor(actor);
+				return (
+					<button onClick={() => send("progress")}>
+						{state.context.file} {state.context.progress}
+					</button>
+				);
+			}
+
+			function App() {
+				const [state] = useMachine(
+					({ state, enter }) => {
+						state(
+							"list",
+							enter({
+								assign: (_, __, { spawn }) => ({
+									uploads: [spawn(upload, { file: "a.png", progress: 0 })],
+								}),
+							})
+						);
+					},
+					{ uploads: [] as Ref[] }
+				);
+				return (
+					<div>
+						{state.context.uploads.map((actor) => (
+							<Item key={actor.id} actor={actor} />
+						))}
+					</div>
+				);
+			}
+
+			act(() => {
+				render(<App />, root);
+			});
+			expect(root.textContent).toBe("a.png 0");
+
+			act(() => {
+				root.querySelector("button")!.click();
+			});
+			expect(root.textContent).toBe("a.png 50");
+
+			act(() => {
+				unmountComponentAtNode(root);
+			});
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+	});
+});
+
 describe("cool", () => {
 	it("should pass", () => {
 		expect(true).toBe(true);
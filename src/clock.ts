@@ -0,0 +1,51 @@
+import { Clock, SimulatedClock } from "./types";
+
+/**
+ * The default clock, backed by the global timer functions.
+ */
+export const defaultClock: Clock = {
+	setTimeout: (fn, ms) => setTimeout(fn, ms),
+	clearTimeout: (id) => clearTimeout(id),
+};
+
+/**
+ * Create a clock where time only passes when calling `advance(ms)`,
+ * which synchronously runs all of the timeouts that became due, in order.
+ * Useful for testing delayed transitions without waiting for real time
+ * to pass.
+ */
+export function createSimulatedClock(): SimulatedClock {
+	let now = 0;
+	let lastId = 0;
+	let timeouts: { id: number; time: number; fn: () => void }[] = [];
+
+	return {
+		now: () => now,
+		setTimeout(fn, ms) {
+			const id = ++lastId;
+			timeouts.push({ id, time: now + ms, fn });
+			return id;
+		},
+		clearTimeout(id) {
+			timeouts = timeouts.filter((timeout) => timeout.id !== id);
+		},
+		advance(ms) {
+			const until = now + ms;
+			let due = next(until);
+			while (due) {
+				const { id, time, fn } = due;
+				timeouts = timeouts.filter((timeout) => timeout.id !== id);
+				now = time;
+				fn();
+				due = next(until);
+			}
+			now = until;
+		},
+	};
+
+	function next(until: number) {
+		return timeouts
+			.filter((timeout) => timeout.time <= until)
+			.sort((a, b) => a.time - b.time || a.id - b.id)[0];
+	}
+}
@@ -4,6 +4,7 @@ export const ACTION = "action";
 export const GUARD = "guard";
 export const INVOKE = "invoke";
 export const EFFECT = "effect";
+export const RAISE = "raise";
 export const HOOKS = {
 	ASSIGN,
 	REDUCE,
@@ -11,6 +12,7 @@ export const HOOKS = {
 	GUARD,
 	INVOKE,
 	EFFECT,
+	RAISE,
 } as const;
 
 export const HOOK_KEYS = {
@@ -18,4 +20,14 @@ export const HOOK_KEYS = {
 	reduce: "reducers" as const,
 	effect: "effects" as const,
 	invoke: "invokes" as const,
+	raise: "raises" as const,
+};
+
+export const IMPLEMENTATION_KEYS = {
+	guard: "guards" as const,
+	reduce: "reducers" as const,
+	assign: "assigns" as const,
+	action: "actions" as const,
+	invoke: "invokes" as const,
+	effect: "effects" as const,
 };
@@ -1,4 +1,4 @@
-import { HOOK_KEYS } from "./constants";
+import { HOOK_KEYS, IMPLEMENTATION_KEYS } from "./constants";
 import warning from "tiny-warning";
 import {
 	TransitionOptions,
@@ -13,39 +13,75 @@ import {
 	Transition,
 	Immediate,
 	Internal,
+	Delayed,
 	Exit,
+	Initial,
 	Machine,
 	EventObject,
 	StateObject,
+	StateHelpers,
+	StateValue,
 	SendFunction,
+	Tags,
+	Defer,
+	Clock,
+	CreateMachineOptions,
+	FinalOptions,
+	RaiseOption,
+	Action,
+	InvokeFunction,
+	InvokeOptions,
+	Actor,
+	ActorRef,
+	SpawnOptions,
+	SendOption,
+	Scheduler,
+	SendAfterOptions,
+	EffectSendFunction,
+	Implementations,
+	Guard,
+	GuardObject,
+	GuardCombinator,
+	Service,
+	ReduceHelpers,
+	ActionFunction,
+	ActionHelpers,
+	SpawnFunction,
 } from "./types";
+import { defaultClock } from "./clock";
 
-const transitionHooks: ["assign", "reduce", "action", "guard"] = [
+const transitionHooks: [
 	"assign",
 	"reduce",
 	"action",
 	"guard",
-];
-const enterHooks: ["assign", "reduce", "action", "invoke", "effect"] = [
+	"raise",
+	"effect"
+] = ["assign", "reduce", "action", "guard", "raise", "effect"];
+const enterHooks: [
 	"assign",
 	"reduce",
 	"action",
 	"invoke",
 	"effect",
-];
-const exitHooks: ["assign", "reduce", "action"] = [
+	"raise"
+] = ["assign", "reduce", "action", "invoke", "effect", "raise"];
+const exitHooks: ["assign", "reduce", "action", "raise", "effect"] = [
 	"assign",
 	"reduce",
 	"action",
+	"raise",
+	"effect",
 ];
 
+const DEFAULT_MAX_MICROSTEPS = 100;
+const DEFAULT_MAX_DEFERRED = 100;
+
 const mappedHooks: MappedHooks = {
 	assign: ["reduce", assignToReduce],
 	action: ["reduce", actionToReduce],
 };
 
-const ACTION = {};
-
 function assertString(
 	argument: any,
 	error: string
@@ -62,39 +98,122 @@ export function createMachine<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
->(create?: MachineDescription<ContextType, StateType, EventType>) {
+>(
+	create?: MachineDescription<ContextType, StateType, EventType>,
+	options: CreateMachineOptions = {}
+) {
 	const machine: Machine<ContextType, StateType> = {
 		states: {} as any,
+		transitions: {},
+		provide,
 	};
+	let initials: Initial[] = [];
+
+	function register(state: MachineState, opts: any[]) {
+		const states = machine.states as Record<string, MachineState>;
+		// child states were registered at the top level when their own
+		// state() call was evaluated, move them under the parent instead
+		for (const [childName, child] of Object.entries(state.states)) {
+			if (states[childName] === child) {
+				delete states[childName];
+			}
+		}
+		// similarly, any initial() passed to a state is not the top level one
+		initials = initials.filter((initial) => !opts.includes(initial));
+		states[state.name] = state;
+		return state;
+	}
 
 	if (create) {
 		create({
-			state: (name, ...opts) => {
-				const state = createState(name, ...opts);
-				machine.states[name as keyof StateType] = state;
-				return state;
-			},
+			state: (name, ...opts) => register(createState(name, ...opts), opts),
+			parallel: (name, ...opts) =>
+				register({ ...createState(name, ...opts), parallel: true }, opts),
+			final: (name, ...opts) => register(createFinal(name, ...opts), opts),
 			enter: createEnter,
 			exit: createExit,
 			transition: createTransition,
 			immediate: createImmediate,
 			internal: createInternal,
+			after: createDelayed,
+			initial: (target) => {
+				const initial = createInitial(target);
+				initials.push(initial);
+				return initial;
+			},
+			tags: createTags,
+			defer: createDefer,
+			history: createHistory,
+			on: (...transitions) => {
+				for (const transition of transitions) {
+					if (transition.type !== "transition") {
+						throw new Error(
+							"Global transitions should be one of transition() or internal()"
+						);
+					}
+					if (!machine.transitions[transition.event]) {
+						machine.transitions[transition.event] = [];
+					}
+					machine.transitions[transition.event].push(transition as Transition);
+				}
+			},
 		});
 	}
 
-	validate(machine);
+	const initial = options.initial || initials.map((i) => i.target).pop();
+	if (initial) {
+		machine.initial = initial;
+	}
+	if (options.maxMicrosteps) {
+		machine.maxMicrosteps = options.maxMicrosteps;
+	}
+	if (options.maxDeferred) {
+		machine.maxDeferred = options.maxDeferred;
+	}
+	if (options.implementations) {
+		machine.implementations = options.implementations;
+	}
+
+	assignIds(machine.states as Record<string, MachineState>, "");
+	validateStates(machine);
 
 	return machine;
 }
 
-function validate<
+/**
+ * Give every state node an id, the path of state names from the
+ * root of the machine, e.g. `editor.dirty`.
+ */
+function assignIds(states: Record<string, MachineState>, parentId: string) {
+	for (const [name, state] of Object.entries(states)) {
+		state.id = parentId ? `${parentId}.${name}` : name;
+		assignIds(state.states, state.id);
+	}
+}
+
+function validateStates<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>
 >(machine: Machine<ContextType, StateType>) {
-	for (const [, state] of Object.entries<MachineState>(machine.states)) {
+	if (machine.initial && !resolveTarget(machine, "", machine.initial)) {
+		throw new Error(`Invalid initial state '${machine.initial}'`);
+	}
+
+	for (const state of [getState(machine, ""), ...getDescendants(machine, "")]) {
+		const initial =
+			state.initial && resolveTarget(machine, state.id, state.initial);
+		if (
+			state.initial &&
+			(!initial || initial.history || !isDescendant(initial.id, state.id))
+		) {
+			throw new Error(
+				`Invalid initial state '${state.initial}' of state '${state.id}'`
+			);
+		}
+
 		if (state.immediates) {
 			for (const transition of state.immediates) {
-				if (!(machine.states as any)[transition.target]) {
+				if (!resolveTarget(machine, state.id, transition.target)) {
 					throw new Error(`Invalid transition target '${transition.target}'`);
 				}
 			}
@@ -104,12 +223,18 @@ function validate<
 			for (const transition of transitions) {
 				if (
 					!isInternal(transition) &&
-					!(machine.states as any)[transition.target]
+					!resolveTarget(machine, state.id, transition.target)
 				) {
 					throw new Error(`Invalid transition target '${transition.target}'`);
 				}
 			}
 		}
+
+		for (const transition of state.delays) {
+			if (!resolveTarget(machine, state.id, transition.target)) {
+				throw new Error(`Invalid transition target '${transition.target}'`);
+			}
+		}
 	}
 }
 
@@ -118,12 +243,36 @@ function validate<
  */
 function createState(
 	name: string,
-	...opts: (Transition | Immediate | Internal | Enter | Exit)[]
+	...opts: (
+		| Transition
+		| Immediate
+		| Internal
+		| Delayed
+		| Enter
+		| Exit
+		| Initial
+		| Tags
+		| Defer
+		| MachineState
+	)[]
 ): MachineState {
 	const enter: Enter[] = [];
 	const exit: Exit[] = [];
 	const transitions: Record<string, Transition[]> = {};
 	const immediates: Immediate[] = [];
+	const delays: Delayed[] = [];
+	const states: Record<string, MachineState> = {};
+	const tags: string[] = [];
+	const defer: string[] = [];
+	let initial: string | undefined;
+
+	assertString(
+		name,
+		"First argument of the state must be the name of the state"
+	);
+	if (name.includes(".")) {
+		throw new Error(`State name '${name}' must not contain '.'`);
+	}
 
 	for (const opt of opts) {
 		let event: string | undefined;
@@ -138,29 +287,89 @@ function createState(
 			transitions[event!].push(opt as Transition);
 		} else if (type === "immediate") {
 			immediates.push(opt as Immediate);
+		} else if (type === "after") {
+			delays.push(opt as Delayed);
 		} else if (type === "enter") {
 			enter.push(opt as Enter);
 		} else if (type === "exit") {
 			exit.push(opt as Exit);
+		} else if (type === "state") {
+			states[(opt as MachineState).name] = opt as MachineState;
+		} else if (type === "initial") {
+			initial = (opt as Initial).target;
+		} else if (type === "tags") {
+			tags.push(...(opt as Tags).tags);
+		} else if (type === "defer") {
+			defer.push(...(opt as Defer).events);
 		} else {
 			throw new Error(
-				`State '${name}' should be passed one of enter(), exit(), transition(), immediate() or internal()`
+				`State '${name}' should be passed one of enter(), exit(), transition(), immediate(), internal(), after(), initial(), tags(), defer() or state()`
 			);
 		}
 	}
 
 	return {
+		type: "state",
 		name,
+		id: name,
+		initial,
+		tags,
+		defer,
 		enter,
 		exit,
 		transitions,
 		immediates,
+		delays,
+		states,
 	};
 }
 
+/**
+ * Create a final state node. Any options object without a `type` holds
+ * the function computing the output data of the final state.
+ */
+function createFinal<ContextType extends object, EventType extends EventObject>(
+	name: string,
+	...opts: (FinalOptions<ContextType, EventType> | Enter | Exit | Tags)[]
+): MachineState {
+	let data: FinalOptions<ContextType, EventType>["data"];
+	const hooks: (Enter | Exit | Tags)[] = [];
+
+	for (const opt of opts) {
+		if ("type" in opt) {
+			if (!["enter", "exit", "tags"].includes(opt.type)) {
+				throw new Error(
+					`Final state '${name}' should be passed one of enter(), exit() or tags()`
+				);
+			}
+			hooks.push(opt);
+		} else if (opt.data !== undefined) {
+			data = opt.data;
+		}
+	}
+
+	const state: MachineState = { ...createState(name, ...hooks), final: true };
+	if (data !== undefined) {
+		state.data = data;
+	}
+	return state;
+}
+
 function createEnter<ContextType extends object, EventType extends EventObject>(
 	opts: EnterOptions<ContextType, EventType>
 ): Enter {
+	for (const invoke of toArray(opts.invoke || [])) {
+		if (
+			typeof invoke !== "string" &&
+			!isFunction(invoke) &&
+			!isFunction(invoke.src) &&
+			!isMachine(invoke.machine)
+		) {
+			throw new Error(
+				"The invoke must be an async function, or an object with the async function as src or a machine"
+			);
+		}
+	}
 	return {
 		type: "enter",
 		...merge(opts, enterHooks),
@@ -176,13 +385,58 @@ function createExit<ContextType extends object, EventType extends EventObject>(
 	};
 }
 
+function createInitial(target: string): Initial {
+	assertString(
+		target,
+		"First argument of the initial must be the name of the child state"
+	);
+	return {
+		type: "initial",
+		target,
+	};
+}
+
+function createHistory(
+	name: string,
+	opts: { deep?: boolean; target?: string } = {}
+): MachineState {
+	const state = createState(
+		name,
+		...(opts.target ? [createImmediate(opts.target, {})] : [])
+	);
+	return {
+		...state,
+		history: opts.deep ? "deep" : "shallow",
+	};
+}
+
+function createTags(...tags: string[]): Tags {
+	for (const tag of tags) {
+		assertString(tag, "Arguments of the tags must be the names of the tags");
+	}
+	return {
+		type: "tags",
+		tags,
+	};
+}
+
+function createDefer(...events: string[]): Defer {
+	for (const event of events) {
+		assertString(event, "Arguments of the defer must be the event types");
+	}
+	return {
+		type: "defer",
+		events,
+	};
+}
+
 function createTransition<
 	ContextType extends object,
 	EventType extends EventObject
 >(
 	event: string,
 	target: string,
-	opts: TransitionOptions<ContextType, EventType>
+	opts?: TransitionOptions<ContextType, EventType>
 ): Transition {
 	assertString(
 		event,
@@ -203,7 +457,7 @@ function createTransition<
 function createInternal<
 	ContextType extends object,
 	EventType extends EventObject
->(event: string, opts: TransitionOptions<ContextType, EventType>): Internal {
+>(event: string, opts?: TransitionOptions<ContextType, EventType>): Internal {
 	assertString(
 		event,
 		"First argument of the internal transition must be the name of the event"
@@ -216,10 +470,35 @@ function createInternal<
 	};
 }
 
+function createDelayed<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	delay: number | ((context: ContextType, event: EventType) => number),
+	target: string,
+	opts?: TransitionOptions<ContextType, EventType>
+): Delayed {
+	if (typeof delay !== "number" && !isFunction(delay)) {
+		throw new Error(
+			"First argument of the delayed transition must be the delay in milliseconds"
+		);
+	}
+	assertString(
+		target,
+		"Second argument of the delayed transition must be the name of the target state"
+	);
+	return {
+		type: "after",
+		delay,
+		target,
+		...merge(opts, transitionHooks),
+	};
+}
+
 function createImmediate<
 	ContextType extends object,
 	EventType extends EventObject
->(target: string, opts: TransitionOptions<ContextType, EventType>): Immediate {
+>(target: string, opts?: TransitionOptions<ContextType, EventType>): Immediate {
 	assertString(
 		target,
 		"First argument of the immediate transition must be the name of the target state"
@@ -234,9 +513,11 @@ function createImmediate<
 /**
  * Transition the given machine, with the given state
  * to the next state based on the event. Returns the tuple
- * of the next state and any events to execute. In case no external
- * transition took place, return null as effects, to indicate
- * that the active effects should continue running.
+ * of the next state, the effects of the entered states and the actions
+ * to call before running the effects. In case no states were entered or
+ * exited, return null as effects, to indicate that the active effects
+ * should continue running. Otherwise, the effects of the exited states
+ * should be cleaned up, see cleanEffects.
  */
 export function transition<
 	ContextType extends object,
@@ -246,266 +527,1583 @@ export function transition<
 	machine: Machine<ContextType, StateType>,
 	state: StateType,
 	event: EventType | EventType["type"]
-): [next: StateType, effects: Effect<ContextType, EventType>[] | null] {
+): [
+	next: StateType & StateHelpers,
+	effects: Effect<ContextType, EventType>[] | null,
+	actions: Action<ContextType, EventType>[]
+] {
 	const eventObj = toEventObject(event);
 
 	// initial transition
 	if (!state.name && eventObj && eventObj.type === null) {
 		const stateNames = Object.keys(machine.states);
 		if (stateNames.length > 0) {
-			const initialStateName = stateNames[0];
+			const initialStateName = machine.initial || stateNames[0];
 			const initialTransition = createImmediate(initialStateName, {});
-			return applyTransition(machine, state, eventObj, initialTransition);
+			const [next, effects, actions] = macrostep(machine, state, eventObj, [
+				[initialTransition, ""],
+			]);
+			return [withHelpers(machine, next), effects, actions];
+		}
+	}
+
+	// starting the machine in the given state, e.g. a persisted state,
+	// skips the enter hooks and only starts the effects of the active states
+	if (state.name && eventObj && eventObj.type === null) {
+		const target = resolveTarget(machine, "", state.name);
+		if (!target) {
+			throw new Error(`Invalid state '${state.name}'`);
 		}
+		const configuration =
+			state.configuration ||
+			sortByDocumentOrder(machine, getEntrySet(machine, "", [target.id]));
+		const next = { ...state, name: getName(configuration)!, configuration };
+		return [
+			withHelpers(machine, next),
+			getEffects(machine, configuration, eventObj),
+			[],
+		];
 	}
 
-	const currState: MachineState =
-		machine.states[state.name as keyof StateType] || {};
-	const transitions = currState.transitions || {};
-	const candidates = transitions[eventObj.type] || [];
+	const enabled = selectTransitions(machine, state, eventObj, (currState) =>
+		getCandidates(currState, eventObj.type)
+	);
 
-	for (const candidate of candidates) {
-		if (checkGuards(state.context, eventObj, candidate)) {
-			return applyTransition(machine, state, eventObj, candidate);
+	if (enabled.length === 0) {
+		if (isDeferred(machine, state, eventObj.type)) {
+			return [
+				withHelpers(machine, deferEvent(machine, state, eventObj)),
+				null,
+				[],
+			];
 		}
+		return [withHelpers(machine, state), null, []];
 	}
 
-	return [state, null];
+	const [next, effects, actions] = macrostep(machine, state, eventObj, enabled);
+	return [withHelpers(machine, next), effects, actions];
 }
 
 /**
- * The logic of applying a transition to the machine. Exit states,
- * apply transition hooks, enter states and collect any events. Do this
- * recursively untill all immediate transitions settle.
+ * Process an event in a single macrostep. A macrostep is a series of
+ * microsteps, each taking a set of enabled transitions. After the
+ * transitions of the event are taken, the eventless immediate transitions
+ * are taken, followed by the transitions of the raised events, e.g. the
+ * `done.state.<id>` events or the events of the `raise` hooks, until the
+ * machine settles.
  */
-function applyTransition<
+function macrostep<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
 >(
 	machine: Machine<ContextType, StateType>,
-	curr: StateType,
+	state: StateType,
 	event: EventType,
-	transition: Transition | Internal | Immediate
-): [next: StateType, effects: Effect<ContextType, EventType>[] | null] {
-	const next = { ...curr };
-	const currentName = curr.name as keyof StateType;
-	const target = isInternal(transition)
-		? currentName
-		: (transition.target as keyof StateType);
-	const currState = machine.states[currentName];
-	const nextState = machine.states[target];
-	const effects = isInternal(transition)
-		? null
-		: ([] as Effect<ContextType, EventType>[]);
+	enabled: EnabledTransition[]
+): [
+	next: StateType,
+	effects: Effect<ContextType, EventType>[] | null,
+	actions: Action<ContextType, EventType>[]
+] {
+	const maxMicrosteps = machine.maxMicrosteps || DEFAULT_MAX_MICROSTEPS;
+	const queue: EventType[] = [];
+	const actions: Action<ContextType, EventType>[] = [];
+	const trace: string[][] = [];
+	let next = state;
+	let currEvent = event;
+	let effects: Effect<ContextType, EventType>[] = [];
+	let changed = false;
 
-	if (currState && !isInternal(transition)) {
-		for (const exit of currState.exit) {
-			applyReducers(next, event, exit.reducers);
+	while (enabled.length > 0) {
+		if (trace.length === maxMicrosteps) {
+			throw createLoopError(machine, event, maxMicrosteps, trace);
 		}
-	}
 
-	next.name = target as string;
+		let exited: string[];
+		let entered: string[];
+		[next, exited, entered] = microstep(
+			machine,
+			next,
+			currEvent,
+			enabled,
+			queue,
+			actions
+		);
+		trace.push(getLeaves(next.configuration!));
+
+		// only the effects of the states entered in this macrostep are started,
+		// skipping the states that have been exited again by a later microstep
+		const transitionEffects = getTransitionEffects(
+			machine,
+			exited,
+			enabled,
+			currEvent
+		);
+		if (exited.length > 0 || entered.length > 0 || transitionEffects.length) {
+			changed = true;
+			effects = effects
+				.filter((effect) => !exited.includes(effect.state))
+				.concat(transitionEffects, getEffects(machine, entered, currEvent));
+		}
 
-	applyReducers(next, event, transition.reducers);
+		enabled = selectTransitions(
+			machine,
+			next,
+			currEvent,
+			(currState) => currState.immediates || []
+		);
 
-	if (!isInternal(transition)) {
-		for (const enter of nextState.enter) {
-			applyReducers(next, event, enter.reducers);
+		while (enabled.length === 0 && queue.length > 0) {
+			const raised = queue.shift()!;
+			currEvent = raised;
+			enabled = selectTransitions(machine, next, raised, (currState) =>
+				getCandidates(currState, raised.type)
+			);
 		}
-	}
 
-	if (nextState.immediates) {
-		for (const candidate of nextState.immediates) {
-			if (checkGuards(next.context, event, candidate)) {
-				return applyTransition(machine, next, event, candidate);
+		// once the machine settles, replay the first deferred event it handles
+		const deferred = next.deferred || [];
+		for (let i = 0; enabled.length === 0 && i < deferred.length; i++) {
+			const replayed = deferred[i] as EventType;
+			enabled = selectTransitions(machine, next, replayed, (currState) =>
+				getCandidates(currState, replayed.type)
+			);
+			if (enabled.length > 0) {
+				currEvent = replayed;
+				next = { ...next, deferred: deferred.filter((_, j) => j !== i) };
+				if (next.deferred!.length === 0) {
+					delete next.deferred;
+				}
 			}
 		}
 	}
 
+	const configuration = next.configuration!;
+
 	if (
-		Object.keys(nextState.transitions).length === 0 &&
-		nextState.immediates?.length === 0
+		configuration.some((id) => !getParentId(id) && getState(machine, id).final)
 	) {
 		next.final = true;
+	} else if (
+		["", ...configuration].every((id) => {
+			const { transitions, immediates = [], delays } = getState(machine, id);
+			return (
+				Object.keys(transitions).length === 0 &&
+				immediates.length === 0 &&
+				delays.length === 0
+			);
+		})
+	) {
+		next.final = true;
+	} else {
+		delete next.final;
+		delete next.output;
 	}
 
-	if (!isInternal(transition)) {
-		for (const enter of nextState.enter) {
-			// @ts-ignore
-			if (enter.invokes) {
-				// @ts-ignore
-				for (const invoke of enter.invokes) {
-					effects!.push({ run: promiseEffect(invoke), event });
-				}
-			}
-
-			for (const effect of enter.effects) {
-				effects!.push({ run: effect, event });
-			}
-		}
-	}
-
-	return [next, effects];
+	return [next, changed ? effects : null, actions];
 }
 
-function checkGuards<ContextType extends object, EventType extends EventObject>(
-	context: ContextType,
-	event: EventType,
-	transition: Transition | Immediate
-) {
+/**
+ * Check if the event is deferred by any of the active states. The timers
+ * of the delayed transitions are never deferred.
+ */
+function isDeferred<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, state: StateType, type: string) {
 	return (
-		!transition.guards.length ||
-		transition.guards.every((g) => g(context, event))
+		!isDelayedEventType(type) &&
+		(state.configuration || []).some((id) =>
+			getState(machine, id).defer.some((descriptor) =>
+				matchesEvent(descriptor, type)
+			)
+		)
 	);
 }
 
-function applyReducers<
+/**
+ * Buffer the deferred event, to be replayed once the machine is in a
+ * state handling it. Once the buffer is full, the oldest event is
+ * discarded.
+ */
+function deferEvent<
 	ContextType extends object,
-	StateType extends StateObject<ContextType>,
-	EventType extends EventObject
+	StateType extends StateObject<ContextType>
 >(
-	next: StateType,
-	event: EventType,
-	reducers: ((context: ContextType, event: EventType) => ContextType)[]
+	machine: Machine<ContextType, StateType>,
+	state: StateType,
+	event: EventObject
 ) {
-	for (const reduce of reducers) {
-		const result = reduce(next.context, event);
-		if (result !== ACTION) {
-			next.context = result;
-		}
+	const maxDeferred = machine.maxDeferred || DEFAULT_MAX_DEFERRED;
+	const deferred = (state.deferred || []).concat(event);
+	if (deferred.length > maxDeferred) {
+		const [discarded] = deferred.splice(0, 1);
+		warning(
+			false,
+			`Discarded the deferred event '${discarded.type}', as more than ${maxDeferred} events have been deferred. Increase the maxDeferred option if needed.`
+		);
 	}
+	return { ...state, deferred };
 }
 
 /**
- * A common operation is to assign event payload
- * to the context, this allows to do in several ways:
- * true - assign the full event payload to context
- * fn - assign the result of the fn(context, data) to context
- * val - assign the constant provided value to context
+ * Name the states involved in a runaway loop of immediate transitions or
+ * raised events, based on the active states of the latest microsteps.
  */
-function assignToReduce<
+function createLoopError<
 	ContextType extends object,
-	EventType extends EventObject
+	StateType extends StateObject<ContextType>
 >(
-	assign:
-		| true
-		| ((
-				context: ContextType,
-				data: Pick<EventType, Exclude<keyof EventType, "type">>
-		  ) => any)
-		| ContextType
-): (context: ContextType, event: EventType) => ContextType {
-	return (context, event) => {
-		const { type, ...data } = event;
+	machine: Machine<ContextType, StateType>,
+	event: EventObject,
+	maxMicrosteps: number,
+	trace: string[][]
+) {
+	const states = sortByDocumentOrder(
+		machine,
+		new Set(
+			trace.slice(-Math.ceil(maxMicrosteps / 2)).reduce((a, b) => a.concat(b))
+		)
+	);
+	return new Error(
+		`Exceeded ${maxMicrosteps} microsteps processing ${
+			event.type === null ? "the initial transition" : `event '${event.type}'`
+		}, there is a loop of immediate transitions or raised events between the states ${states
+			.map((id) => `'${id}'`)
+			.join(", ")}`
+	);
+}
 
-		if (assign === true) {
-			return { ...context, ...data };
-		}
+/**
+ * Attach the `value`, `matches` and `hasTag` helpers to the state. These
+ * are derived from the configuration and are not enumerable, so that
+ * they're left out when the state is copied or serialized.
+ */
+function withHelpers<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	state: StateType
+): StateType & StateHelpers {
+	if (isWithHelpers(state)) {
+		return state;
+	}
 
-		if (isFunction(assign)) {
-			return { ...context, ...assign(context, data) };
-		}
+	const configuration = getActive(state);
 
-		return { ...context, ...assign };
-	};
+	return Object.defineProperties(
+		{ ...state },
+		{
+			value: {
+				value: getValue(configuration, ""),
+			},
+			matches: {
+				value: (value: StateValue) => matches(configuration, value, ""),
+			},
+			hasTag: {
+				value: (tag: string) =>
+					configuration.some((id) => getState(machine, id).tags.includes(tag)),
+			},
+		}
+	);
 }
 
-function actionToReduce<ContextType, EventType extends EventObject>(
-	action: (context: ContextType, event: EventType) => any
-): (context: ContextType, event: EventType) => typeof ACTION {
-	return (context, event) => {
-		action(context, event);
-		return ACTION;
-	};
+function isWithHelpers<StateType>(
+	state: StateType
+): state is StateType & StateHelpers {
+	return "matches" in state;
 }
 
 /**
- * Allow to pass each hook as a function, or a list of functions
- *   transition(..., { reduce: fn })
- *   transition(..., { reduce: [fn1, fn2] })
- * Convert both of those into arrays, and also remap some of the
- * hooks to different hooks (i.e. assign -> reduce)
+ * The structured value of the configuration nested under the given
+ * state. It's the name of the active child state if it's a leaf, and
+ * an object mapping each active child state to its own value otherwise,
+ * e.g. `{ editor: 'dirty' }` or `{ upload: { network: 'idle', ui: 'collapsed' } }`.
  */
-function merge<
-	OptsType extends {
-		[key in HookType]?: any;
+function getValue(configuration: string[], parentId: string): StateValue {
+	const children = configuration.filter(
+		(id) => id !== parentId && getParentId(id) === parentId
+	);
+	const isLeaf = (id: string) =>
+		!configuration.some((other) => isDescendant(other, id));
+
+	if (children.length === 1 && isLeaf(children[0])) {
+		return getStateName(children[0]);
 	}
->(opts: OptsType | undefined = {} as any, allowedHooks: HookType[]) {
-	const merged: { [key in ValueOf<typeof HOOK_KEYS>]: any[] } = {} as any;
 
-	for (const hook of allowedHooks) {
-		add(hook);
+	const value: { [key: string]: StateValue } = {};
+	for (const id of children) {
+		value[getStateName(id)] = getValue(configuration, id);
 	}
+	return value;
+}
 
-	function add(hook: HookType) {
-		let opt = toArray(opts[hook] || []);
+/**
+ * Check if the configuration matches the given state value. A string
+ * value is the name or the path of a state, an object value matches
+ * each of its keys and their values recursively.
+ */
+function matches(
+	configuration: string[],
+	value: StateValue,
+	parentId: string
+): boolean {
+	const toId = (name: string) => (parentId ? `${parentId}.${name}` : name);
 
-		if (isMappedHook(hook)) {
-			const [newName, transform] = mappedHooks[hook];
-			hook = newName;
-			opt = opt.map(transform);
-		}
+	if (typeof value === "string") {
+		return configuration.includes(toId(value));
+	}
 
-		const key = HOOK_KEYS[hook];
+	return Object.entries(value).every(
+		([name, childValue]) =>
+			configuration.includes(toId(name)) &&
+			matches(configuration, childValue, toId(name))
+	);
+}
 
-		if (key) {
-			merged[key] = toArray(merged[key] || []).concat(opt);
-		}
+/**
+ * The transitions of the state matching the event type, in the order
+ * of priority. Exact matches come first, followed by the prefix wildcards
+ * such as `form.*`, from the most specific to the least specific one, and
+ * the catch-all `*` transitions come last.
+ */
+function getCandidates(
+	state: MachineState,
+	type: string
+): (Transition | Internal | Delayed)[] {
+	const candidates: (Transition | Internal | Delayed)[] = [
+		...(state.transitions[type] || []),
+		...state.delays.filter((_, i) => getDelayedEventType(state, i) === type),
+	];
+
+	// the timers of delayed transitions are private to their state
+	if (isDelayedEventType(type)) {
+		return candidates;
 	}
 
-	return merged;
+	const wildcards = Object.keys(state.transitions)
+		.filter(
+			(descriptor) => descriptor !== type && matchesEvent(descriptor, type)
+		)
+		.sort((a, b) => b.length - a.length);
+
+	for (const descriptor of wildcards) {
+		candidates.push(...state.transitions[descriptor]);
+	}
+
+	return candidates;
 }
 
 /**
- * Convert an async function into an effect
- * that sends 'done' and 'error' events
+ * Check if the event descriptor of a transition matches the event type.
+ * A descriptor ending with `.*` matches the prefix itself, as well as any
+ * event nested under the prefix, e.g. `form.*` matches `form`, `form.submit`
+ * and `form.field.change`. The `*` descriptor matches any event.
  */
-function promiseEffect<
+function matchesEvent(descriptor: string, type: string) {
+	if (descriptor === "*" || descriptor === type) {
+		return true;
+	}
+	if (descriptor.endsWith(".*")) {
+		const prefix = descriptor.slice(0, -2);
+		return type === prefix || type.startsWith(`${prefix}.`);
+	}
+	return false;
+}
+
+/**
+ * Select the transitions enabled by the event. The event is dispatched
+ * to every active leaf state, and bubbles from each leaf up through its
+ * ancestors until a transition matches. If transitions selected in
+ * different parallel regions would exit the same states, the first one
+ * in document order wins.
+ */
+function selectTransitions<
 	ContextType extends object,
+	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
->(fn: (context: ContextType, event: EventType) => Promise<any>) {
-	return (
-		context: ContextType,
-		event: EventType,
-		send: SendFunction<EventType>
-	) => {
-		let disposed = false;
-		Promise.resolve(fn(context, event))
-			.then((data) => {
-				if (!disposed) {
-					send({ type: "done", data } as any);
-				}
-			})
-			.catch((error) => {
-				if (!disposed) {
-					send({ type: "error", error } as any);
+>(
+	machine: Machine<ContextType, StateType>,
+	state: StateType,
+	event: EventType,
+	getCandidates: (
+		state: MachineState
+	) => (Transition | Internal | Immediate | Delayed)[]
+): EnabledTransition[] {
+	const active = getActive(state);
+	const enabled: EnabledTransition[] = [];
+	const exited = new Set<string>();
+
+	for (const leaf of getLeaves(active)) {
+		// the global transitions of the machine are matched last
+		for (const id of [...getAncestors(leaf).reverse(), ""]) {
+			const match = getCandidates(getState(machine, id)).find((candidate) =>
+				checkGuards(state.context, event, candidate, machine.implementations)
+			);
+
+			if (match) {
+				const exitSet = getExitSet(machine, active, match, id);
+				if (
+					!enabled.some(([t, source]) => t === match && source === id) &&
+					!exitSet.some((exitedId) => exited.has(exitedId))
+				) {
+					enabled.push([match, id]);
+					exitSet.forEach((exitedId) => exited.add(exitedId));
 				}
-			});
-		return () => {
-			disposed = true;
-		};
-	};
+				break;
+			}
+		}
+	}
+
+	return enabled;
 }
 
 /**
- * createMachine and transition are pure, stateless functions. After
- * transitioning the machine to the next state, the caller must clean
- * up all of the running effects, and then run the newly provided effects.
+ * The logic of applying a set of transitions to the machine in a single
+ * microstep. Exit states, apply transition hooks, enter states and queue
+ * any raised events.
  */
-export function runEffects<
+function microstep<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	curr: StateType,
+	event: EventType,
+	enabled: EnabledTransition[],
+	queue: EventType[],
+	actions: Action<ContextType, EventType>[]
+): [next: StateType, exited: string[], entered: string[]] {
+	const next = { ...curr };
+	const active = getActive(curr);
+	const exitSet = new Set<string>();
+	const entrySet = new Set<string>();
+
+	for (const [transition, source] of enabled) {
+		for (const id of getExitSet(machine, active, transition, source)) {
+			exitSet.add(id);
+		}
+	}
+
+	const exited = active.filter((id) => exitSet.has(id)).reverse();
+
+	for (const id of exited) {
+		for (const history of getChildStates(getState(machine, id), true)) {
+			if (history.history) {
+				next.history = {
+					...next.history,
+					[history.id]: active.filter((activeId) =>
+						history.history === "deep"
+							? isDescendant(activeId, id) &&
+							  getLeaves(active).includes(activeId)
+							: getParentId(activeId) === id
+					),
+				};
+			}
+		}
+	}
+
+	for (const [transition, source] of enabled) {
+		if (!isInternal(transition)) {
+			const target = resolveTarget(machine, source, transition.target)!;
+			const domain = getDomain(machine, source, target.id);
+			const targets = resolveHistory(machine, next, target);
+			for (const id of getEntrySet(machine, domain, targets)) {
+				entrySet.add(id);
+			}
+		}
+	}
+
+	const entered = sortByDocumentOrder(machine, entrySet);
+
+	const scope = createReducerScope(machine, actions);
+
+	for (const id of exited) {
+		for (const exit of getState(machine, id).exit) {
+			applyReducers(next, event, exit.reducers, scope);
+			raiseEvents(next, event, exit.raises, queue);
+		}
+	}
+
+	next.configuration = sortByDocumentOrder(
+		machine,
+		active.filter((id) => !exitSet.has(id)).concat(entered)
+	);
+	next.name = getName(next.configuration)!;
+
+	for (const [transition] of enabled) {
+		applyReducers(next, event, transition.reducers, scope);
+		raiseEvents(next, event, transition.raises, queue);
+	}
+
+	for (const id of entered) {
+		for (const enter of getState(machine, id).enter) {
+			applyReducers(next, event, enter.reducers, { ...scope, state: id });
+			raiseEvents(next, event, enter.raises, queue);
+		}
+	}
+
+	raiseDoneEvents(machine, next, event, entered, queue);
+
+	return [next, exited, entered];
+}
+
+/**
+ * Entering a final state completes its parent state, which raises a
+ * `done.state.<id>` event for the parent. A parallel state completes once
+ * all of its regions have completed. Entering a top level final state
+ * completes the machine, storing the output data on the state.
+ */
+function raiseDoneEvents<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	next: StateType,
+	event: EventType,
+	entered: string[],
+	queue: EventType[]
+) {
+	const configuration = next.configuration!;
+
+	for (const id of entered) {
+		const state = getState(machine, id);
+		if (!state.final) {
+			continue;
+		}
+
+		const data = state.data ? state.data(next.context, event) : undefined;
+		const parentId = getParentId(id);
+		if (!parentId) {
+			next.output = data;
+			continue;
+		}
+		queue.push(createDoneEvent(`done.state.${parentId}`, data) as EventType);
+
+		const grandparentId = getParentId(parentId);
+		if (
+			grandparentId &&
+			getState(machine, grandparentId).parallel &&
+			getChildStates(getState(machine, grandparentId)).every((region) =>
+				configuration.some(
+					(activeId) =>
+						getParentId(activeId) === region.id &&
+						getState(machine, activeId).final
+				)
+			)
+		) {
+			queue.push(createDoneEvent(`done.state.${grandparentId}`) as EventType);
+		}
+	}
+}
+
+function createDoneEvent(type: string, data?: any): EventObject {
+	return data === undefined ? { type } : ({ type, data } as EventObject);
+}
+
+/**
+ * Collect the effects of the given states, including the invokes and
+ * the timers of the delayed transitions.
+ */
+function getEffects<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	configuration: string[],
+	event: EventType
+): Effect<ContextType, EventType>[] {
+	const effects: Effect<ContextType, EventType>[] = [];
+
+	for (const id of configuration) {
+		for (const enter of getState(machine, id).enter) {
+			for (const named of enter.invokes) {
+				const invoke = resolveImplementation(named, machine.implementations);
+				effects.push({
+					run:
+						!isFunction(invoke) && invoke.machine
+							? machineEffect(invoke)
+							: promiseEffect(invoke),
+					event,
+					state: id,
+				});
+			}
+
+			for (const effect of enter.effects) {
+				effects.push({
+					run: resolveImplementation(effect, machine.implementations),
+					event,
+					state: id,
+				});
+			}
+		}
+
+		const state = getState(machine, id);
+		state.delays.forEach((delayed, i) => {
+			effects.push({
+				run: delayedEffect(getDelayedEventType(state, i), delayed.delay),
+				event,
+				state: id,
+			});
+		});
+	}
+
+	return effects;
+}
+
+/**
+ * Collect the effects of the exit hooks of the exited states and of the
+ * taken transitions. These don't belong to any of the states, they're
+ * owned by the machine itself, and cleaned up by the next transition
+ * that starts or stops any effects, or once the machine is stopped.
+ */
+function getTransitionEffects<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	exited: string[],
+	enabled: EnabledTransition[],
+	event: EventType
+): Effect<ContextType, EventType>[] {
+	const effects: Effect<ContextType, EventType>[] = [];
+
+	for (const id of exited) {
+		for (const exit of getState(machine, id).exit) {
+			for (const effect of exit.effects) {
+				effects.push({
+					run: resolveImplementation(effect, machine.implementations),
+					event,
+					state: "",
+				});
+			}
+		}
+	}
+
+	for (const [transition] of enabled) {
+		for (const effect of transition.effects) {
+			effects.push({
+				run: resolveImplementation(effect, machine.implementations),
+				event,
+				state: "",
+			});
+		}
+	}
+
+	return effects;
+}
+
+function checkGuards<ContextType extends object, EventType extends EventObject>(
+	context: ContextType,
+	event: EventType,
+	transition: Transition | Internal | Immediate | Delayed,
+	implementations: Implementations = {}
+) {
+	return (
+		!transition.guards.length ||
+		transition.guards.every((g) =>
+			evaluateGuard(g, context, event, implementations)
+		)
+	);
+}
+
+/**
+ * Evaluate a guard function, a guard referenced by name or by a guard
+ * object with params, or a combination of guards.
+ */
+function evaluateGuard<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	guard: Guard<ContextType, EventType>,
+	context: ContextType,
+	event: EventType,
+	implementations: Implementations
+): boolean {
+	if (isFunction(guard)) {
+		return resolveImplementation(guard, implementations)(context, event);
+	}
+	if (typeof guard === "string") {
+		return getImplementation("guard", guard, implementations)(context, event);
+	}
+	if (isGuardCombinator(guard)) {
+		const check = (g: Guard<ContextType, EventType>) =>
+			evaluateGuard(g, context, event, implementations);
+		if (guard.type === "and") {
+			return guard.guards.every(check);
+		}
+		if (guard.type === "or") {
+			return guard.guards.some(check);
+		}
+		return !check(guard.guards[0]);
+	}
+	return getImplementation("guard", guard.type, implementations)(
+		context,
+		event,
+		(guard as GuardObject).params
+	);
+}
+
+/**
+ * Combine the guards, passing if all of them pass.
+ */
+export function and<ContextType extends object, EventType>(
+	...guards: Guard<ContextType, EventType>[]
+): GuardCombinator<ContextType, EventType> {
+	return { type: "and", guards };
+}
+
+/**
+ * Combine the guards, passing if any of them passes.
+ */
+export function or<ContextType extends object, EventType>(
+	...guards: Guard<ContextType, EventType>[]
+): GuardCombinator<ContextType, EventType> {
+	return { type: "or", guards };
+}
+
+/**
+ * Negate the guard.
+ */
+export function not<ContextType extends object, EventType>(
+	guard: Guard<ContextType, EventType>
+): GuardCombinator<ContextType, EventType> {
+	return { type: "not", guards: [guard] };
+}
+
+function isGuardCombinator(guard: any): guard is GuardCombinator<any, any> {
+	return (
+		["and", "or", "not"].includes(guard.type) && Array.isArray(guard.guards)
+	);
+}
+
+// the helpers passed to the reducers, along with the actions collected
+// while transitioning and the implementations of the machine, used by the
+// assign and action hooks mapped to reducers
+type ReducerScope<
+	ContextType extends object,
+	EventType extends EventObject
+> = ReduceHelpers & {
+	actions: Action<ContextType, EventType>[];
+	implementations: Implementations;
+	// the state owning the collected actions, i.e. the state being entered
+	state?: string;
+};
+
+function createReducerScope<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	actions: Action<ContextType, EventType>[]
+): ReducerScope<ContextType, EventType> {
+	return {
+		actions,
+		implementations: machine.implementations || {},
+		spawn: createSpawn(actions),
+	};
+}
+
+/**
+ * Apply the reducers to the context of the next state. The reducers
+ * referenced by name are resolved against the implementations of the
+ * machine, while the assign and action hooks mapped to reducers resolve
+ * their own implementations.
+ */
+function applyReducers<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	next: StateType,
+	event: EventType,
+	reducers: any[],
+	scope: ReducerScope<ContextType, EventType>
+) {
+	for (const reduce of reducers) {
+		const run = reduce.hook
+			? reduce
+			: resolveImplementation(reduce, scope.implementations);
+		next.context = run(next.context, event, scope);
+	}
+}
+
+/**
+ * Queue the events of the raise hooks, to be processed in the following
+ * microsteps of the current macrostep.
+ */
+function raiseEvents<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	next: StateType,
+	event: EventType,
+	raises: RaiseOption<ContextType, EventType>[],
+	queue: EventType[]
+) {
+	for (const raise of raises) {
+		queue.push(
+			toEventObject(isFunction(raise) ? raise(next.context, event) : raise)
+		);
+	}
+}
+
+/**
+ * A common operation is to assign event payload
+ * to the context, this allows to do in several ways:
+ * true - assign the full event payload to context
+ * fn - assign the result of the fn(context, data) to context
+ * val - assign the constant provided value to context
+ */
+function assignToReduce<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	assign:
+		| true
+		| ((
+				context: ContextType,
+				data: Pick<EventType, Exclude<keyof EventType, "type">>,
+				helpers: ReduceHelpers
+		  ) => any)
+		| ContextType
+): (
+	context: ContextType,
+	event: EventType,
+	scope: ReducerScope<ContextType, EventType>
+) => ContextType {
+	return (context, event, scope) => {
+		const { type, ...data } = event;
+
+		if (assign === true) {
+			return { ...context, ...data };
+		}
+
+		const impl = resolveImplementation(assign, scope.implementations);
+
+		if (isFunction(impl)) {
+			return { ...context, ...impl(context, data, scope) };
+		}
+
+		return { ...context, ...impl };
+	};
+}
+
+/**
+ * Actions are not executed while transitioning, instead they're collected
+ * along with the context and the event they are to be called with.
+ */
+function actionToReduce<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	action: ActionFunction<ContextType, EventType>
+): (
+	context: ContextType,
+	event: EventType,
+	scope: ReducerScope<ContextType, EventType>
+) => ContextType {
+	return (context, event, { actions, implementations, state }) => {
+		actions.push({
+			run: resolveImplementation(action, implementations),
+			context,
+			event,
+			state,
+		});
+		return context;
+	};
+}
+
+/**
+ * Allow to pass each hook as a function, or a list of functions
+ *   transition(..., { reduce: fn })
+ *   transition(..., { reduce: [fn1, fn2] })
+ * Convert both of those into arrays, and also remap some of the
+ * hooks to different hooks (i.e. assign -> reduce)
+ */
+function merge<
+	OptsType extends {
+		[key in HookType]?: any;
+	}
+>(opts: OptsType | undefined = {} as any, allowedHooks: HookType[]) {
+	const merged: { [key in ValueOf<typeof HOOK_KEYS>]: any[] } = {} as any;
+
+	for (const hook of allowedHooks) {
+		add(hook);
+	}
+
+	function add(hook: HookType) {
+		let opt = toArray(opts[hook] || []);
+
+		if (hook in IMPLEMENTATION_KEYS) {
+			opt = opt.map((impl) =>
+				typeof impl === "string" ? createNamed(hook, impl) : impl
+			);
+		}
+
+		if (isMappedHook(hook)) {
+			const [newName, transform] = mappedHooks[hook];
+			const mapped = hook;
+			hook = newName;
+			// keep the original hook and the name of its implementation, e.g.
+			// for validate and for serializing the machine
+			opt = opt.map((impl) =>
+				Object.assign((transform as (hook: any) => any)(impl), {
+					hook: mapped,
+					source: impl,
+					...(impl.implementation && { implementation: impl.implementation }),
+				})
+			);
+		}
+
+		const key = HOOK_KEYS[hook];
+
+		if (key) {
+			merged[key] = toArray(merged[key] || []).concat(opt);
+		}
+	}
+
+	return merged;
+}
+
+type NamedHook = ((...args: any[]) => any) & {
+	implementation: { hook: keyof typeof IMPLEMENTATION_KEYS; name: string };
+};
+
+/**
+ * Create a hook referencing an implementation by name. The implementation
+ * is looked up whenever the hook is used, so that the implementations can
+ * be overridden by machine.provide() or the options of the machine. The
+ * hook itself is only a placeholder, and is never called.
+ */
+function createNamed(hook: HookType, name: string): NamedHook {
+	return Object.assign(
+		() => {
+			throw new Error(`The ${hook} '${name}' has not been resolved`);
+		},
+		{ implementation: { hook: hook as keyof typeof IMPLEMENTATION_KEYS, name } }
+	);
+}
+
+/**
+ * Resolve a hook referenced by name against the given implementations of
+ * the machine, other hooks are returned as is.
+ */
+function resolveImplementation(
+	hook: any,
+	implementations: Implementations = {}
+) {
+	if (!hook || !hook.implementation) {
+		return hook;
+	}
+	const { hook: type, name } = (hook as NamedHook).implementation;
+	return getImplementation(type, name, implementations);
+}
+
+function getImplementation(
+	type: keyof typeof IMPLEMENTATION_KEYS,
+	name: string,
+	implementations: Implementations = {}
+): any {
+	const impls = implementations[IMPLEMENTATION_KEYS[type]] || {};
+	if (!(name in impls)) {
+		throw new Error(`Missing implementation of the ${type} '${name}'`);
+	}
+	return (impls as Record<string, any>)[name];
+}
+
+/**
+ * Create a variant of the machine, with the given implementations
+ * overriding its own.
+ */
+function provide<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	this: Machine<ContextType, StateType>,
+	implementations: Implementations
+): Machine<ContextType, StateType> {
+	const merged: Implementations = { ...this.implementations };
+	for (const key of Object.values(IMPLEMENTATION_KEYS)) {
+		if (implementations[key]) {
+			merged[key] = { ...merged[key], ...implementations[key] } as any;
+		}
+	}
+	return { ...this, implementations: merged };
+}
+
+/**
+ * Report the hooks referenced by name that have no implementation in the
+ * implementations of the machine, e.g. before running a machine that has
+ * been loaded from JSON. Returns the list of errors, empty if valid.
+ */
+export function validate<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>) {
+	const errors: string[] = [];
+	const impls: Implementations = machine.implementations || {};
+
+	for (const state of [getState(machine, ""), ...getDescendants(machine, "")]) {
+		const hooks: any[] = [
+			...state.enter,
+			...state.exit,
+			...Object.values(state.transitions).reduce((a, b) => a.concat(b), []),
+			...(state.immediates || []),
+			...state.delays,
+		];
+
+		for (const hook of hooks) {
+			for (const [type, name] of getNames(hook)) {
+				const error = `Missing implementation of the ${type} '${name}'`;
+				if (
+					!(name in (impls[IMPLEMENTATION_KEYS[type]] || {})) &&
+					!errors.includes(error)
+				) {
+					errors.push(error);
+				}
+			}
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * List the names of the implementations referenced by the hooks of a
+ * transition or an enter/exit, including the guards referenced by guard
+ * objects and combinations of guards.
+ */
+function getNames(hook: any): [keyof typeof IMPLEMENTATION_KEYS, string][] {
+	const names: [keyof typeof IMPLEMENTATION_KEYS, string][] = [];
+
+	function addGuard(guard: Guard<any, any>) {
+		if (typeof guard === "string") {
+			names.push(["guard", guard]);
+		} else if (isGuardCombinator(guard)) {
+			guard.guards.forEach(addGuard);
+		} else if (!isFunction(guard)) {
+			names.push(["guard", guard.type]);
+		}
+	}
+
+	for (const key of Object.values(HOOK_KEYS)) {
+		for (const impl of hook[key] || []) {
+			if (impl.implementation) {
+				const { hook: type, name } = (impl as NamedHook).implementation;
+				names.push([type, name]);
+			} else if (key === "guards") {
+				addGuard(impl);
+			}
+		}
+	}
+
+	return names;
+}
+
+/**
+ * Convert an async function into an effect that sends 'done' and 'error'
+ * events, or the custom events of the invoke. The function is passed an
+ * AbortSignal, which is aborted once the effect is cleaned up, or once the
+ * attempt times out. Failed attempts are retried according to the retry
+ * policy, sending a 'retrying' event before waiting for the next attempt.
+ */
+function promiseEffect<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	invoke:
+		| InvokeFunction<ContextType, EventType>
+		| InvokeOptions<ContextType, EventType>
+) {
+	const { src, id, onDone, onError, onRetry, timeout, retry } = isFunction(
+		invoke
+	)
+		? ({ src: invoke } as InvokeOptions<ContextType, EventType>)
+		: invoke;
+	const prefix = id ? `invoke.${id}.` : "";
+	const doneType = onDone || `${prefix}done`;
+	const errorType = onError || `${prefix}error`;
+	const retryType = onRetry || `${prefix}retrying`;
+	const {
+		attempts = retry ? 3 : 1,
+		delay = 1000,
+		factor = 2,
+		maxDelay = Infinity,
+		jitter = false,
+		shouldRetry = () => true,
+	} = retry || {};
+
+	return (
+		context: ContextType,
+		event: EventType,
+		send: SendFunction<EventType>,
+		clock: Clock
+	) => {
+		let controller: AbortController | undefined;
+		let timer: any;
+		let disposed = false;
+
+		function run(attempt: number) {
+			// the signal is only passed where AbortController is available
+			controller =
+				typeof AbortController !== "undefined"
+					? new AbortController()
+					: undefined;
+			const signal = controller && controller.signal;
+			const result = new Promise((resolve) =>
+				resolve(src!(context, event, signal))
+			);
+			const timedOut = new Promise((_, reject) => {
+				if (timeout) {
+					timer = clock.setTimeout(() => {
+						reject(new Error(`Invoke timed out after ${timeout}ms`));
+						controller?.abort();
+					}, timeout);
+				}
+			});
+			Promise.race([result, timedOut]).then(
+				(data) => {
+					clock.clearTimeout(timer);
+					if (!disposed) {
+						send({ type: doneType, data } as any);
+					}
+				},
+				(error) => {
+					clock.clearTimeout(timer);
+					if (disposed) {
+						return;
+					}
+					if (attempt < attempts && shouldRetry(error, attempt)) {
+						const backoff = getBackoff(
+							attempt,
+							delay,
+							factor,
+							maxDelay,
+							jitter
+						);
+						send({
+							type: retryType,
+							attempt: attempt + 1,
+							attempts,
+							delay: backoff,
+							error,
+						} as any);
+						timer = clock.setTimeout(() => run(attempt + 1), backoff);
+					} else {
+						send({ type: errorType, error } as any);
+					}
+				}
+			);
+		}
+
+		run(1);
+
+		return () => {
+			disposed = true;
+			clock.clearTimeout(timer);
+			controller?.abort();
+		};
+	};
+}
+
+/**
+ * Convert an invoked machine into an effect that starts it as a child
+ * service, and stops it when the invoking state is exited. The output of
+ * the child's final state is sent back as the done event.
+ */
+function machineEffect<
+	ContextType extends object,
+	EventType extends EventObject
+>(invoke: InvokeOptions<ContextType, EventType>) {
+	const { id, machine, context: getContext, onDone } = invoke;
+	const doneType = onDone || (id ? `invoke.${id}.done` : "done");
+
+	return (
+		context: ContextType,
+		event: EventType,
+		send: SendFunction<EventType>,
+		clock: Clock,
+		self?: Actor
+	) => {
+		if (!self || !self.createChild) {
+			throw new Error(
+				"Machines can only be invoked by a machine run by useMachine or createService"
+			);
+		}
+		const { children } = self;
+		const child = self.createChild(
+			machine!,
+			getContext ? getContext(context, event) : {},
+			{ clock, parent: { send, parent: self.parent, children } }
+		);
+		if (id) {
+			children[id] = child;
+		}
+		child.onDone(({ data }) => send({ type: doneType, data } as any));
+
+		return () => {
+			child.stop();
+			if (id && children[id] === child) {
+				delete children[id];
+			}
+		};
+	};
+}
+
+/**
+ * The exponential backoff before the next attempt. With jitter, the
+ * delay is randomized between half of the delay and the full delay.
+ */
+function getBackoff(
+	attempt: number,
+	delay: number,
+	factor: number,
+	maxDelay: number,
+	jitter: boolean
+) {
+	const backoff = Math.min(maxDelay, delay * Math.pow(factor, attempt - 1));
+	return jitter
+		? Math.round(backoff / 2 + (Math.random() * backoff) / 2)
+		: backoff;
+}
+
+/**
+ * Convert a delayed transition into an effect that sends the
+ * event of the transition once the delay has passed.
+ */
+function delayedEffect<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	type: string,
+	delay: number | ((context: ContextType, event: EventType) => number)
+) {
+	return (
+		context: ContextType,
+		event: EventType,
+		send: SendFunction<EventType>,
+		clock: Clock
+	) => {
+		const ms = isFunction(delay) ? delay(context, event) : delay;
+		const id = clock.setTimeout(() => send({ type } as any), ms);
+		return () => {
+			clock.clearTimeout(id);
+		};
+	};
+}
+
+/**
+ * The type of the event sent when the delay of the delayed
+ * transition at the given index of the state has passed.
+ */
+function getDelayedEventType(state: MachineState, index: number) {
+	return `after(${index})#${state.id}`;
+}
+
+function isDelayedEventType(type: string) {
+	return /^after\(\d+\)#/.test(type);
+}
+
+/**
+ * Call the actions returned by transition, in the order they were
+ * collected. These are called once, before running the effects. Given
+ * the configuration of the next state, the sends scheduled by the enter
+ * actions of the states that have been exited are cancelled first. A
+ * state that has been re-entered is recognised by its new enter actions.
+ */
+export function runActions<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	actions: Action<ContextType, EventType>[] = [],
+	self?: Actor,
+	configuration?: string[]
+) {
+	if (configuration && self && self.scheduler) {
+		self.scheduler.clear(
+			(owner) =>
+				typeof owner === "string" &&
+				(!configuration.includes(owner) ||
+					actions.some((action) => action.state === owner))
+		);
+	}
+	const spawn = createSpawn(null, self);
+	for (const action of actions) {
+		action.run(action.context, action.event, {
+			self,
+			spawn,
+			state: action.state,
+		});
+	}
+}
+
+/**
+ * Create an action sending the event once the delay has passed, unless
+ * cancelled with the given id first. The sends scheduled by the enter
+ * actions are owned by their state, and cancelled once it's exited, while
+ * the sends scheduled by the other actions are only cancelled once the
+ * machine is stopped.
+ */
+export function sendAfter<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	event: SendOption<ContextType, EventType>,
+	delay: number | ((context: ContextType, event: EventType) => number),
+	options?: SendAfterOptions
+) {
+	return (
+		context: ContextType,
+		curr: EventType,
+		{ self, state }: ActionHelpers
+	) => {
+		warning(
+			self && self.scheduler,
+			"sendAfter can only be used in a machine run by useMachine or createService."
+		);
+		if (self && self.scheduler) {
+			self.scheduler.sendAfter(
+				resolveEvent(event, context, curr),
+				isFunction(delay) ? delay(context, curr) : delay,
+				options,
+				state
+			);
+		}
+	};
+}
+
+/**
+ * Create an action cancelling the pending send with the given id.
+ */
+export function cancel(id: string) {
+	return (_context: unknown, _event: unknown, { self }: ActionHelpers) => {
+		if (self && self.scheduler) {
+			self.scheduler.cancel(id);
+		}
+	};
+}
+
+/**
+ * Stop the machines spawned by the actor, once the actor is stopped.
+ */
+export function stopChildren(self: Actor) {
+	for (const id of Object.keys(self.children)) {
+		const child = self.children[id];
+		if (child.stop) {
+			child.stop();
+		}
+	}
+}
+
+/**
+ * Create the spawn helper of the reducers, e.g. assign, or of the actions,
+ * for spawning machines created with createMachine, and keeping the
+ * references to them in the context. As reducers must stay pure, the
+ * machines spawned by the reducers are only started once the transition
+ * is complete, along with the collected actions, while the machines
+ * spawned by the actions are started right away, by the actor calling
+ * the actions.
+ */
+function createSpawn(
+	actions: Action<any, any>[] | null,
+	self?: Actor
+): SpawnFunction {
+	return (machine, context = {} as any, options = {}) => {
+		const [ref, start] = createActorRef(machine, context, options);
+		if (actions) {
+			actions.push({
+				run: (_, __, helpers) => start(helpers.self),
+				context,
+				event: { type: null },
+			});
+		} else {
+			start(self);
+		}
+		return ref;
+	};
+}
+
+/**
+ * Create a reference to a spawned machine, and the function starting it
+ * as a child of the given actor. Until started, the reference holds the
+ * initial state of the machine, and queues the events sent to it. Unless
+ * given, the id of the reference is the next `spawn.<n>` id among the
+ * children of the actor, assigned once the machine is started.
+ */
+function createActorRef<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	context: ContextType,
+	options: SpawnOptions
+): [ActorRef<ContextType, StateType, EventType>, (self?: Actor) => void] {
+	const { clock } = options;
+	const [initialState] = transition<ContextType, StateType, EventType>(
+		machine,
+		{ name: null, context } as any,
+		{ type: null } as any
+	);
+	let service: Service<ContextType, StateType, EventType> | undefined;
+	let parent: Actor | undefined;
+	let stopped = false;
+	let queue: (EventType | EventType["type"])[] = [];
+	let cbs: ((state: StateType & StateHelpers) => void)[] = [];
+
+	const ref: ActorRef<ContextType, StateType, EventType> = {
+		id: options.id || "",
+		state: initialState,
+		children: {},
+		send(event) {
+			if (service) {
+				service.send(event);
+			} else if (!stopped) {
+				queue.push(event);
+			}
+		},
+		subscribe(fn) {
+			cbs.push(fn);
+			return () => {
+				cbs = cbs.filter((f) => f !== fn);
+			};
+		},
+		stop() {
+			stopped = true;
+			queue = [];
+			cbs = [];
+			if (service) {
+				service.stop();
+			}
+			if (parent && parent.children[ref.id] === ref) {
+				delete parent.children[ref.id];
+			}
+		},
+	};
+
+	function start(self?: Actor) {
+		if (stopped || service) return;
+		if (!self || !self.createChild) {
+			throw new Error(
+				"Machines can only be spawned by a machine run by useMachine or createService"
+			);
+		}
+
+		parent = self;
+		ref.id = options.id || getSpawnId(parent);
+		service = self.createChild(machine, context, {
+			clock: clock || self.clock,
+			parent,
+		});
+		ref.state = service.state;
+		ref.children = service.children;
+		parent.children[ref.id] = ref;
+		service.subscribe((state) => {
+			ref.state = state;
+			for (const cb of cbs) {
+				cb(state);
+			}
+		});
+		const events = queue;
+		queue = [];
+		for (const event of events) {
+			service.send(event);
+		}
+	}
+
+	return [ref, start];
+}
+
+// the next `spawn.<n>` id among the children of the parent
+function getSpawnId(parent: Actor) {
+	let count = 0;
+	for (const id of Object.keys(parent.children)) {
+		const match = /^spawn\.(\d+)$/.exec(id);
+		if (match) {
+			count = Math.max(count, Number(match[1]));
+		}
+	}
+	return `spawn.${count + 1}`;
+}
+
+/**
+ * Create an action sending an event to the parent of an invoked machine.
+ * The event can be given as a function of the context and event.
+ */
+export function sendParent<
+	ContextType extends object,
+	EventType extends EventObject
+>(event: SendOption<ContextType, EventType>) {
+	return (context: ContextType, curr: EventType, { self }: ActionHelpers) => {
+		warning(
+			self && self.parent,
+			"sendParent can only be used in a machine that has been invoked by another machine."
+		);
+		if (self && self.parent) {
+			self.parent.send(resolveEvent(event, context, curr));
+		}
+	};
+}
+
+/**
+ * Create an action sending an event to the child machine invoked with
+ * the given id. The event can be given as a function of the context
+ * and event.
+ */
+export function sendTo<
+	ContextType extends object,
+	EventType extends EventObject
+>(id: string, event: SendOption<ContextType, EventType>) {
+	return (context: ContextType, curr: EventType, { self }: ActionHelpers) => {
+		const child = self && self.children[id];
+		warning(child, `There is no running child machine with the id '${id}'.`);
+		if (child) {
+			child.send(resolveEvent(event, context, curr));
+		}
+	};
+}
+
+function resolveEvent<
+	ContextType extends object,
+	EventType extends EventObject
+>(
+	event: SendOption<ContextType, EventType>,
+	context: ContextType,
+	curr: EventType
+) {
+	return isFunction(event) ? event(context, curr) : event;
+}
+
+/**
+ * createMachine and transition are pure, stateless functions. After
+ * transitioning the machine to the next state, the caller must clean
+ * up all of the running effects, and then run the newly provided effects.
+ */
+export function runEffects<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
 >(
 	effects: Effect<ContextType, EventType>[] = [],
 	state: StateType,
-	send: SendFunction<EventType>
+	send: SendFunction<EventType>,
+	clock: Clock = defaultClock,
+	self?: Actor
 ) {
 	const runningEffects = [];
+	const scheduler = (self && self.scheduler) || createScheduler(send, clock);
 
 	for (const effect of effects) {
-		const safeSend: typeof send = (...args) => {
+		const safeSend: EffectSendFunction<EventType> = (...args) => {
 			if ((effect as any).disposed) {
 				warning(
 					false,
@@ -519,8 +2117,21 @@ export function runEffects<
 				return send(...args);
 			}
 		};
+		// the events scheduled by the effect are cancelled on its clean up
+		let scheduled = false;
+		safeSend.sendAfter = (event, delay, options) => {
+			scheduled = true;
+			return scheduler.sendAfter(event, delay, options, effect);
+		};
+		safeSend.cancel = scheduler.cancel;
 
-		const dispose = effect.run(state.context, effect.event, safeSend);
+		const dispose = effect.run(
+			state.context,
+			effect.event,
+			safeSend,
+			clock,
+			self
+		);
 
 		if (dispose && "then" in dispose) {
 			warning(
@@ -530,10 +2141,13 @@ export function runEffects<
 					"Use invoke instead of effect for async functions, or call the async function inside the synchronous effect function.",
 				].join(" ")
 			);
-		} else if (dispose) {
+		} else if (dispose || scheduled) {
+			// only the effects with something to clean up are kept running,
+			// either a cleanup function or the sends they have scheduled
 			effect.dispose = () => {
 				(effect as any).disposed = true;
-				return dispose();
+				scheduler.clear(effect);
+				return dispose && dispose();
 			};
 			runningEffects.push(effect);
 		}
@@ -542,16 +2156,418 @@ export function runEffects<
 	return runningEffects;
 }
 
+/**
+ * Create the scheduler of the delayed sends of a service or a hook, see
+ * sendAfter. The pending sends are cancelled once their owner, i.e. the
+ * effect that scheduled them or the state of the enter action that
+ * scheduled them, is cleaned up or exited, or once the scheduler is
+ * cleared when the machine is stopped.
+ */
+export function createScheduler<EventType extends EventObject>(
+	send: SendFunction<EventType>,
+	clock: Clock = defaultClock
+): Scheduler {
+	let pending: { id: string; timer: any; owner?: object | string }[] = [];
+	let count = 0;
+
+	function remove(predicate: (send: typeof pending[number]) => boolean) {
+		pending = pending.filter((send) => {
+			if (predicate(send)) {
+				clock.clearTimeout(send.timer);
+				return false;
+			}
+			return true;
+		});
+	}
+
+	return {
+		sendAfter(event, delay, options = {}, owner) {
+			const id = options.id || `sendAfter.${++count}`;
+			remove((send) => send.id === id);
+			const scheduled = {
+				id,
+				owner,
+				timer: clock.setTimeout(() => {
+					pending = pending.filter((send) => send !== scheduled);
+					send(event as EventType);
+				}, delay),
+			};
+			pending.push(scheduled);
+			return id;
+		},
+		cancel(id) {
+			remove((send) => send.id === id);
+		},
+		clear(owner) {
+			remove((send) =>
+				isFunction(owner)
+					? send.owner !== undefined && owner(send.owner)
+					: !owner || send.owner === owner
+			);
+		},
+	};
+}
+
+/**
+ * Clean up the running effects. Given the configuration and the effects
+ * returned by transition, only the effects of the exited states are
+ * cleaned up, while the effects of the states that remain active keep
+ * running. A state that has been re-entered is recognised by its new
+ * effects. The effects owned by the machine, i.e. the effects of the exit
+ * hooks and the transitions, are cleaned up too. Returns the effects that
+ * keep running.
+ */
 export function cleanEffects<
 	ContextType extends object,
 	EventType extends EventObject
 >(
-	runningEffects: Effect<ContextType, EventType>[] = []
+	runningEffects: Effect<ContextType, EventType>[] = [],
+	configuration?: string[],
+	effects: Effect<ContextType, EventType>[] = []
 ): Effect<ContextType, EventType>[] {
-	for (const effect of runningEffects) {
-		effect.dispose?.();
+	const kept: Effect<ContextType, EventType>[] = [];
+	// in the reverse order, so the effects of the child states are cleaned up first
+	for (const effect of runningEffects.slice().reverse()) {
+		if (
+			configuration &&
+			effect.state &&
+			configuration.includes(effect.state) &&
+			!effects.some((e) => e.state === effect.state)
+		) {
+			kept.unshift(effect);
+		} else {
+			effect.dispose?.();
+		}
+	}
+	return kept;
+}
+
+/**
+ * Look up a state node by its id. The empty id is the root of the
+ * machine, holding the global transitions.
+ */
+function getState<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, id: string): MachineState {
+	if (!id) {
+		return {
+			type: "state",
+			name: "",
+			id: "",
+			tags: [],
+			defer: [],
+			enter: [],
+			exit: [],
+			transitions: machine.transitions,
+			immediates: [],
+			delays: [],
+			states: machine.states as Record<string, MachineState>,
+		};
+	}
+
+	let states = machine.states as Record<string, MachineState>;
+	let state: MachineState | undefined;
+	for (const name of id.split(".")) {
+		state = states[name];
+		states = state.states;
 	}
-	return [];
+	return state!;
+}
+
+/**
+ * All of the state nodes nested under the state with the given id,
+ * in document order. Use an empty id for the whole machine.
+ */
+function getDescendants<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, id: string): MachineState[] {
+	const states = Object.values<MachineState>(
+		id ? getState(machine, id).states : (machine.states as any)
+	);
+	const descendants: MachineState[] = [];
+	for (const state of states) {
+		descendants.push(state, ...getDescendants(machine, state.id));
+	}
+	return descendants;
+}
+
+/**
+ * Resolve a transition target relative to the state declaring the
+ * transition. Names are looked up in the children of the source state,
+ * then in the children of each of its ancestors, similar to lexical scope.
+ * A target can also be a dotted path, e.g. `editor.dirty`.
+ */
+export function resolveTarget<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	source: string,
+	target: string
+): MachineState | undefined {
+	const [head, ...rest] = target.split(".");
+	let scope: string | null = source;
+
+	while (scope !== null) {
+		let states = scope
+			? getState(machine, scope).states
+			: (machine.states as Record<string, MachineState>);
+		let state: MachineState | undefined = states[head];
+
+		for (const name of rest) {
+			if (!state) break;
+			states = state.states;
+			state = states[name];
+		}
+
+		if (state) {
+			return state;
+		}
+
+		scope = scope ? getParentId(scope) : null;
+	}
+
+	return undefined;
+}
+
+/**
+ * The ids of the active states in document order, i.e. every state
+ * comes before its child states.
+ */
+function getActive<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(state: StateType): string[] {
+	return state.configuration || (state.name ? getAncestors(state.name) : []);
+}
+
+/**
+ * The active states that have no active child states.
+ */
+function getLeaves(configuration: string[]): string[] {
+	return configuration.filter(
+		(id) => !configuration.some((other) => isDescendant(other, id))
+	);
+}
+
+/**
+ * The state name is the id of the innermost state containing all of
+ * the active leaf states, e.g. `editor.dirty`, or, when a parallel state
+ * is active, the id of the parallel state.
+ */
+function getName(configuration: string[]): string | undefined {
+	const leaves = getLeaves(configuration);
+	let name = leaves[0];
+	for (const leaf of leaves) {
+		while (leaf !== name && !isDescendant(leaf, name)) {
+			name = getParentId(name);
+		}
+	}
+	return name;
+}
+
+function sortByDocumentOrder<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, ids: Iterable<string>): string[] {
+	const set = new Set(ids);
+	return getDescendants(machine, "")
+		.map((state) => state.id)
+		.filter((id) => set.has(id));
+}
+
+/**
+ * The ids of a state and all of its ancestors, outermost first,
+ * e.g. `a.b.c` -> [`a`, `a.b`, `a.b.c`].
+ */
+function getAncestors(id: string): string[] {
+	const names = id.split(".");
+	return names.map((_, i) => names.slice(0, i + 1).join("."));
+}
+
+function getStateName(id: string) {
+	return id.split(".").pop()!;
+}
+
+function getParentId(id: string) {
+	return id.split(".").slice(0, -1).join(".");
+}
+
+function isDescendant(id: string, ancestorId: string) {
+	return ancestorId === "" || id.startsWith(`${ancestorId}.`);
+}
+
+/**
+ * The transition domain is the innermost compound state that contains
+ * both the source and the target of the transition, but is neither of
+ * them. Only states nested inside the domain are exited and entered.
+ */
+function getDomain<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, source: string, target: string) {
+	const sourceIds = source ? getAncestors(source) : [];
+	const targetIds = getAncestors(target);
+	let i = 0;
+	while (
+		i < sourceIds.length - 1 &&
+		i < targetIds.length - 1 &&
+		sourceIds[i] === targetIds[i]
+	) {
+		i++;
+	}
+	// the regions of a parallel state can't be exited on their own
+	while (i > 0 && getState(machine, sourceIds[i - 1]).parallel) {
+		i--;
+	}
+	return i === 0 ? "" : sourceIds[i - 1];
+}
+
+/**
+ * The ids of the active states exited by taking the transition.
+ */
+function getExitSet<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	active: string[],
+	transition: Transition | Internal | Immediate | Delayed,
+	source: string
+): string[] {
+	if (isInternal(transition)) {
+		return [];
+	}
+	const target = resolveTarget(machine, source, transition.target)!;
+	const domain = getDomain(machine, source, target.id);
+	return active.filter((id) => isDescendant(id, domain));
+}
+
+/**
+ * Replace a history state with the states recorded when its parent state
+ * was last exited. If the parent state hasn't been exited yet, use the
+ * default target of the history state, or the parent's initial state.
+ */
+function resolveHistory<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	state: StateType,
+	target: MachineState
+): string[] {
+	if (!target.history) {
+		return [target.id];
+	}
+
+	const recorded = state.history?.[target.id];
+	if (recorded && recorded.length > 0) {
+		return recorded;
+	}
+
+	const [defaultTransition] = target.immediates || [];
+	if (defaultTransition) {
+		return resolveHistory(
+			machine,
+			state,
+			resolveTarget(machine, target.id, defaultTransition.target)!
+		);
+	}
+
+	return [
+		getInitialState(machine, getState(machine, getParentId(target.id))).id,
+	];
+}
+
+/**
+ * The ids of the states to enter when transitioning to the targets.
+ * That's every ancestor of the targets within the domain, the targets
+ * themselves and the initial child states nested in the targets.
+ * Entering a parallel state enters all of its regions.
+ */
+function getEntrySet<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	domain: string,
+	targets: string[]
+): string[] {
+	const entered: string[] = [];
+	const containsTarget = (id: string) =>
+		targets.some((target) => target === id || isDescendant(target, id));
+
+	for (const target of targets) {
+		for (const id of getAncestors(target)) {
+			if (targets.includes(id) || !isDescendant(id, domain)) {
+				continue;
+			}
+			entered.push(id);
+			const state = getState(machine, id);
+			if (state.parallel) {
+				for (const region of getChildStates(state)) {
+					if (!containsTarget(region.id)) {
+						entered.push(...getDefaultEntrySet(machine, region.id));
+					}
+				}
+			}
+		}
+
+		entered.push(...getDefaultEntrySet(machine, target));
+	}
+
+	return entered;
+}
+
+/**
+ * The ids of the states entered when entering the given state directly,
+ * i.e. the state itself and its initial child states.
+ */
+function getDefaultEntrySet<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, id: string): string[] {
+	const state = getState(machine, id);
+	const children = getChildStates(state);
+
+	if (children.length === 0) {
+		return [id];
+	}
+
+	if (state.parallel) {
+		return children.reduce(
+			(entered, child) => entered.concat(getDefaultEntrySet(machine, child.id)),
+			[id]
+		);
+	}
+
+	// the initial state can be any descendant, entered along with the states
+	// between the state and the initial state
+	return [
+		id,
+		...getEntrySet(machine, id, [getInitialState(machine, state).id]),
+	];
+}
+
+/**
+ * The child states of a state, leaving out the history pseudo states,
+ * unless asked for.
+ */
+function getChildStates(state: MachineState, withHistory = false) {
+	return Object.values(state.states).filter(
+		(child) => withHistory || !child.history
+	);
+}
+
+function getInitialState<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>, state: MachineState): MachineState {
+	return state.initial
+		? resolveTarget(machine, state.id, state.initial)!
+		: getChildStates(state)[0];
 }
 
 function toArray<T>(value: T | T[]): T[] {
@@ -565,15 +2581,24 @@ function toEventObject<EventType extends EventObject>(
 }
 
 function isFunction(value: any): value is Function {
-	return !!(value && {}.toString.call(value) == "[object Function]");
+	return typeof value === "function";
+}
+
+function isMachine(value: any): value is Machine<any, any> {
+	return !!(value && value.states && value.transitions);
 }
 
 function isInternal(
-	transition: Transition | Internal | Immediate | Enter | Exit
+	transition: Transition | Internal | Immediate | Delayed | Enter | Exit
 ): transition is Internal {
 	return "internal" in transition;
 }
 
+type EnabledTransition = [
+	transition: Transition | Internal | Immediate | Delayed,
+	source: string
+];
+
 type MappedHooks = {
 	assign: ["reduce", typeof assignToReduce];
 	action: ["reduce", typeof actionToReduce];
@@ -0,0 +1,292 @@
+import {
+	Machine,
+	MachineState,
+	StateObject,
+	Transition,
+	Internal,
+	Immediate,
+	Delayed,
+	Guard,
+} from "./types";
+import { resolveTarget } from "./core";
+import { getName } from "./serialize";
+
+type AnyTransition = Transition | Internal | Immediate | Delayed;
+
+interface Edge {
+	source: MachineState;
+	target: MachineState;
+	label: string;
+	type: "transition" | "internal" | "immediate" | "after";
+}
+
+/**
+ * Draw the machine as a Mermaid `stateDiagram-v2`. The transitions are
+ * labelled with their events and guards, e.g. `save [isValid]`, and the
+ * immediate, delayed and internal transitions are labelled as such. The
+ * initial and final states are drawn with the `[*]` start and end states.
+ */
+export function toMermaid<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>): string {
+	const lines = ["stateDiagram-v2"];
+
+	function writeStates(
+		states: MachineState[],
+		initial: MachineState | undefined,
+		indent: string
+	) {
+		if (initial) {
+			lines.push(`${indent}[*] --> ${toMermaidId(initial.id)}`);
+		}
+		for (const state of states) {
+			const id = toMermaidId(state.id);
+			const label = state.history
+				? state.history === "deep"
+					? "H*"
+					: "H"
+				: state.name;
+			lines.push(`${indent}state "${label}" as ${id}`);
+
+			const children = Object.values(state.states);
+			if (children.length) {
+				lines.push(`${indent}state ${id} {`);
+				if (state.parallel) {
+					children.forEach((child, i) => {
+						if (i > 0) {
+							lines.push(`${indent}  --`);
+						}
+						writeStates([child], undefined, `${indent}  `);
+					});
+				} else {
+					writeStates(children, getInitial(machine, state), `${indent}  `);
+				}
+				lines.push(`${indent}}`);
+			}
+			if (state.final) {
+				lines.push(`${indent}${id} --> [*]`);
+			}
+		}
+	}
+
+	const states = Object.values(machine.states as Record<string, MachineState>);
+	writeStates(states, getInitial(machine), "  ");
+
+	for (const edge of getEdges(machine)) {
+		lines.push(
+			`  ${toMermaidId(edge.source.id)} --> ${toMermaidId(edge.target.id)}${
+				edge.label ? ` : ${edge.label}` : ""
+			}`
+		);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Draw the machine as a Graphviz DOT digraph. The compound and parallel
+ * states are drawn as clusters, the immediate transitions are dashed, the
+ * internal transitions are dotted self loops, the initial states are
+ * pointed to by a start point, and the final states have a double border.
+ */
+export function toDOT<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	options: { id?: string } = {}
+): string {
+	const { id = "machine" } = options;
+	const lines = [
+		`digraph ${quote(id)} {`,
+		"  compound=true;",
+		'  node [shape=box, style=rounded, fontname="sans-serif"];',
+		'  edge [fontname="sans-serif", fontsize=10];',
+	];
+	const states = Object.values(machine.states as Record<string, MachineState>);
+
+	// the compound states are drawn as clusters, along with a start point
+	// pointing to their initial states, which is also the point the
+	// transitions of the compound state start from and end at
+	function writeStates(states: MachineState[], indent: string) {
+		for (const state of states) {
+			const children = Object.values(state.states);
+			if (children.length) {
+				lines.push(
+					`${indent}subgraph ${quote(`cluster_${state.id}`)} {`,
+					`${indent}  label=${quote(state.name)};`,
+					`${indent}  style=${state.parallel ? "dashed" : "rounded"};`,
+					`${indent}  ${quote(state.id)} [shape=point];`
+				);
+				writeStates(children, `${indent}  `);
+				const initials = state.parallel
+					? children
+					: [getInitial(machine, state)!];
+				for (const initial of initials) {
+					lines.push(`${indent}  ${quote(state.id)} -> ${quote(initial.id)};`);
+				}
+				lines.push(`${indent}}`);
+			} else {
+				const attributes = state.history
+					? `label=${quote(
+							state.history === "deep" ? "H*" : "H"
+					  )}, shape=circle`
+					: `label=${quote(state.name)}${state.final ? ", peripheries=2" : ""}`;
+				lines.push(`${indent}${quote(state.id)} [${attributes}];`);
+			}
+		}
+	}
+
+	writeStates(states, "  ");
+	const initial = getInitial(machine);
+	if (initial) {
+		lines.push(
+			'  "__initial" [shape=point];',
+			`  "__initial" -> ${quote(initial.id)};`
+		);
+	}
+
+	for (const edge of getEdges(machine)) {
+		const { source, target } = edge;
+		const attributes: string[] = [];
+		if (edge.label) {
+			attributes.push(`label=${quote(edge.label)}`);
+		}
+		if (edge.type === "immediate") {
+			attributes.push("style=dashed");
+		} else if (edge.type === "internal") {
+			attributes.push("style=dotted");
+		}
+		// edges from and to the clusters, except for the edges between a
+		// compound state and its own descendants
+		if (Object.keys(source.states).length && !isDescendant(target, source)) {
+			attributes.push(`ltail=${quote(`cluster_${source.id}`)}`);
+		}
+		if (Object.keys(target.states).length && !isDescendant(source, target)) {
+			attributes.push(`lhead=${quote(`cluster_${target.id}`)}`);
+		}
+		lines.push(
+			`  ${quote(source.id)} -> ${quote(target.id)}${
+				attributes.length ? ` [${attributes.join(", ")}]` : ""
+			};`
+		);
+	}
+
+	lines.push("}");
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Collect the transitions of all of the states, the internal transitions
+ * being self loops. The global transitions have no source state, and are
+ * not drawn.
+ */
+function getEdges(machine: Machine<any, any>): Edge[] {
+	const edges: Edge[] = [];
+
+	(function collect(states: MachineState[]) {
+		for (const state of states) {
+			const transitions: AnyTransition[] = [
+				...Object.values(state.transitions).reduce<AnyTransition[]>(
+					(a, b) => a.concat(b),
+					[]
+				),
+				...(state.immediates || []),
+				...state.delays,
+			];
+			for (const transition of transitions) {
+				edges.push({
+					source: state,
+					target:
+						"internal" in transition
+							? state
+							: resolveTarget(machine, state.id, transition.target)!,
+					label: getLabel(transition),
+					type: "internal" in transition ? "internal" : transition.type,
+				});
+			}
+			collect(Object.values(state.states));
+		}
+	})(Object.values(machine.states as Record<string, MachineState>));
+
+	return edges;
+}
+
+/**
+ * The label of a transition, i.e. the event, or `immediate`, or the
+ * delay, followed by the guards, e.g. `save [isValid && !isBusy]`.
+ * The internal transitions are suffixed with `(internal)`.
+ */
+function getLabel(transition: AnyTransition) {
+	let label =
+		transition.type === "immediate"
+			? "immediate"
+			: transition.type === "after"
+			? `after ${
+					typeof transition.delay === "number"
+						? `${transition.delay}ms`
+						: transition.delay.name || "delay"
+			  }`
+			: transition.event;
+	if (transition.guards.length) {
+		label += ` [${transition.guards
+			.map((guard) => getGuardLabel(guard, true))
+			.join(" && ")}]`;
+	}
+	if ("internal" in transition) {
+		label += " (internal)";
+	}
+	return label;
+}
+
+function getGuardLabel(guard: Guard<any, any>, nested = false): string {
+	if (typeof guard === "function" || typeof guard === "string") {
+		return typeof guard === "string" ? guard : getName(guard, "guards");
+	}
+	if (!("guards" in guard)) {
+		return guard.type;
+	}
+	if (guard.type === "not") {
+		return `!${getGuardLabel(guard.guards[0], true)}`;
+	}
+	const label = guard.guards
+		.map((g) => getGuardLabel(g, true))
+		.join(guard.type === "and" ? " && " : " || ");
+	return nested && guard.guards.length > 1 ? `(${label})` : label;
+}
+
+// the initial state of the machine or of a compound state, defaulting to
+// the first child that is not a history state, as when entering the state.
+// The initial state of the machine can be nested, e.g. `editor.dirty`
+function getInitial(
+	machine: Machine<any, any>,
+	state?: MachineState
+): MachineState | undefined {
+	const initial = state ? state.initial : machine.initial;
+	if (initial) {
+		return resolveTarget(machine, state ? state.id : "", initial);
+	}
+	return Object.values<MachineState>(
+		state ? state.states : machine.states
+	).find((child) => !child.history);
+}
+
+function isDescendant(state: MachineState, ancestor: MachineState) {
+	return state.id === ancestor.id || state.id.startsWith(`${ancestor.id}.`);
+}
+
+// the Mermaid ids can't contain dots, nor most other punctuation, so the
+// dots are escaped as `__`, and any other character, including `_`, as `_`
+// followed by its 4 digit hex code, keeping the distinct ids distinct
+function toMermaidId(id: string) {
+	return id.replace(/[^a-zA-Z0-9]/g, (char) =>
+		char === "."
+			? "__"
+			: `_${`000${char.charCodeAt(0).toString(16)}`.slice(-4)}`
+	);
+}
+
+function quote(value: string) {
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
@@ -1,5 +1,14 @@
 import * as React from "react";
-import { createMachine, transition, runEffects, cleanEffects } from "./core";
+import {
+	createMachine,
+	transition,
+	runActions,
+	runEffects,
+	cleanEffects,
+	stopChildren,
+	createScheduler,
+} from "./core";
+import { createService } from "./service";
 
 import {
 	EventObject,
@@ -7,8 +16,12 @@ import {
 	MachineOptions,
 	SendFunction,
 	StateObject,
+	StateHelpers,
 	Machine,
 	Effect,
+	Action,
+	Actor,
+	ActorRef,
 } from "./types";
 
 const ASSIGN = "assign";
@@ -20,39 +33,71 @@ function initial<
 >({
 	context,
 	machine,
+	initialState,
 }: {
-	context: ContextType;
+	context: ContextType | (() => ContextType);
 	machine: Machine<ContextType, StateType>;
+	initialState?: StateType["name"] | StateType;
 }): {
 	machine: Machine<ContextType, StateType>;
-	effects: Effect<ContextType, EventType>[];
-	state: StateType;
+	effects: PendingEffect<ContextType, EventType>[];
+	actions: PendingAction<ContextType, EventType>[];
+	state: StateType & StateHelpers;
 } {
-	const initialState = { context } as any;
+	// the initial state can be a persisted state object to start in, or
+	// the name of the state to enter instead of the machine's initial state
+	const initialTransitionState =
+		initialState && typeof initialState !== "string"
+			? initialState
+			: ({
+					context:
+						typeof context === "function"
+							? (context as () => ContextType)()
+							: context,
+			  } as any);
 	const initialEvent = { type: null } as any;
 
-	const [state, effects] = transition<ContextType, StateType, EventType>(
-		machine,
-		initialState,
-		initialEvent
-	);
+	const [state, effects, actions] = transition<
+		ContextType,
+		StateType,
+		EventType
+	>(machine, initialTransitionState, initialEvent);
 
 	const curr = {
 		machine,
 		effects: effects || [],
+		actions,
 		state,
 	};
 
 	return curr;
 }
 
+/**
+ * An action waiting to be called by the hook. The reducer must not call
+ * the actions itself, as React can call it more than once per event.
+ */
+type PendingAction<
+	ContextType extends object,
+	EventType extends EventObject
+> = Action<ContextType, EventType> & { called?: true };
+
+/**
+ * An effect of an entered state waiting to be started by the hook.
+ */
+type PendingEffect<
+	ContextType extends object,
+	EventType extends EventObject
+> = Effect<ContextType, EventType> & { started?: true };
+
 type ReducerState<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
 > = {
-	state: StateType;
-	effects: Effect<ContextType, EventType>[] | null;
+	state: StateType & StateHelpers;
+	effects: PendingEffect<ContextType, EventType>[];
+	actions: PendingAction<ContextType, EventType>[];
 	context: ContextType;
 	machine: Machine<ContextType, StateType>;
 };
@@ -86,12 +131,29 @@ function reducer<
 ): ReducerState<ContextType, StateType, EventType> {
 	if (action.type === "send") {
 		const { event, machine } = action;
-		const [state, effects] = transition<ContextType, StateType, EventType>(
-			machine,
-			curr.state,
-			event
-		);
-		return { ...curr, state, effects: effects || curr.effects };
+		const [state, effects, actions] = transition<
+			ContextType,
+			StateType,
+			EventType
+		>(machine, curr.state, event);
+		// several events can be dispatched before the actions are called and
+		// the effects are started, drop the effects of the exited states
+		return {
+			...curr,
+			state,
+			effects: effects
+				? curr.effects
+						.filter(
+							(e) =>
+								!e.started &&
+								(!e.state ||
+									(state.configuration!.includes(e.state) &&
+										!effects.some((effect) => effect.state === e.state)))
+						)
+						.concat(effects)
+				: curr.effects,
+			actions: curr.actions.filter((a) => !a.called).concat(actions),
+		};
 	}
 	return curr;
 }
@@ -102,43 +164,102 @@ export function useMachine<
 	EventType extends EventObject
 >(
 	create: MachineDescription<ContextType, StateType, EventType>,
-	context: ContextType = {} as ContextType,
-	options: MachineOptions = { assign: ASSIGN, deps: [] }
+	context: ContextType | (() => ContextType) = {} as ContextType,
+	options: MachineOptions<ContextType, StateType> = { assign: ASSIGN, deps: [] }
 ): [
-	state: StateType,
+	state: StateType & StateHelpers,
 	send: SendFunction<EventType>,
 	machine: Machine<ContextType, StateType>
 ] {
+	const {
+		assign = ASSIGN,
+		deps = [],
+		clock,
+		initialState,
+		onDone,
+		maxMicrosteps,
+		maxDeferred,
+		implementations,
+	} = options;
+
 	const machine = useConstant(() =>
-		createMachine<ContextType, StateType, EventType>(create)
+		createMachine<ContextType, StateType, EventType>(create, {
+			initial: typeof initialState === "string" ? initialState : undefined,
+			maxMicrosteps,
+			maxDeferred,
+			implementations,
+		})
 	);
 
-	const { assign = ASSIGN, deps = [] } = options;
-
 	const runningEffects = React.useRef<any[]>();
 	const firstRender = React.useRef(true);
+	const completed = React.useRef(false);
+	const onDoneRef = React.useRef(onDone);
+	onDoneRef.current = onDone;
 	const [curr, dispatch] = React.useReducer<
 		ReducerType<ContextType, StateType, EventType>
-	>(reducer, { context, machine, effects: null } as any, initial as any);
+	>(
+		reducer,
+		{ context, machine, initialState, effects: null } as any,
+		initial as any
+	);
 	const send: SendFunction<EventType> = React.useCallback(
 		(event) => dispatch({ type: "send", event, machine }),
 		[machine]
 	);
+	// the machines invoked with an id, that actions can send events to, and
+	// the events scheduled by sendAfter
+	const self: Actor = React.useMemo(
+		() => ({
+			send,
+			children: {},
+			scheduler: createScheduler(send, clock),
+			clock,
+			createChild: createService,
+		}),
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+		[send]
+	);
 
+	// the actions are called exactly once, before the effects are started
 	React.useEffect(() => {
-		runningEffects.current = cleanEffects(runningEffects.current);
+		const actions = curr.actions.filter((a) => !a.called);
+		for (const action of actions) {
+			action.called = true;
+		}
+		runActions(actions, self, curr.state.configuration);
+	}, [self, curr.actions, curr.state.configuration]);
 
-		if (curr.effects?.length) {
-			runningEffects.current = runEffects(curr.effects, curr.state, send);
+	// the effects of the states that remain active keep running
+	React.useEffect(() => {
+		const effects = curr.effects.filter((e) => !e.started);
+		for (const effect of effects) {
+			effect.started = true;
 		}
+
+		runningEffects.current = cleanEffects(
+			runningEffects.current,
+			curr.state.configuration,
+			effects
+		).concat(runEffects(effects, curr.state, send, clock, self));
 		// eslint-disable-next-line react-hooks/exhaustive-deps
-	}, [send, curr.effects]);
+	}, [send, self, curr.effects]);
 
 	React.useEffect(() => {
 		return () => {
 			runningEffects.current = cleanEffects(runningEffects.current);
+			stopChildren(self);
+			self.scheduler!.clear();
 		};
-	}, []);
+	}, [self]);
+
+	// notify once, when the machine first reaches a final state
+	React.useEffect(() => {
+		if (curr.state.final && !completed.current) {
+			completed.current = true;
+			onDoneRef.current?.({ type: "done", data: curr.state.output });
+		}
+	}, [curr.state]);
 
 	const assignEffectDeps: any[] = [send].concat(
 		deps || (context ? Object.values(context) : [])
@@ -150,7 +271,8 @@ export function useMachine<
 			return;
 		}
 
-		if (assign) {
+		// a lazily initialised context is not kept in sync
+		if (assign && typeof context !== "function") {
 			send({ type: assign, ...context } as any);
 		}
 		// eslint-disable-next-line react-hooks/exhaustive-deps
@@ -159,6 +281,37 @@ export function useMachine<
 	return [curr.state, send, curr.machine];
 }
 
+/**
+ * Subscribe to the state of a machine spawned by another machine, e.g. in
+ * a component rendering an item of a list kept in the context.
+ */
+export function useActor<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	actor: ActorRef<ContextType, StateType, EventType>
+): [state: StateType & StateHelpers, send: SendFunction<EventType>] {
+	const [curr, setCurr] = React.useState(() => ({
+		actor,
+		state: actor.state,
+	}));
+
+	React.useEffect(() => {
+		// the actor can transition before subscribing, or be replaced
+		const update = () =>
+			setCurr((curr) =>
+				curr.actor === actor && curr.state === actor.state
+					? curr
+					: { actor, state: actor.state }
+			);
+		update();
+		return actor.subscribe(update);
+	}, [actor]);
+
+	return [curr.actor === actor ? curr.state : actor.state, actor.send];
+}
+
 export default function useConstant<T>(fn: () => T): T {
 	const ref = React.useRef<{ v: T }>();
 
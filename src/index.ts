@@ -1,3 +1,22 @@
-export { createMachine, transition, runEffects, cleanEffects } from "./core";
-export { useMachine } from "./hooks";
+export {
+	createMachine,
+	transition,
+	runActions,
+	runEffects,
+	cleanEffects,
+	sendParent,
+	sendTo,
+	sendAfter,
+	cancel,
+	validate,
+	and,
+	or,
+	not,
+} from "./core";
+export { useMachine, useActor } from "./hooks";
+export { createService } from "./service";
+export { createSimulatedClock } from "./clock";
+export { toJSON } from "./serialize";
+export { fromSCXML, toSCXML } from "./scxml";
+export { toMermaid, toDOT } from "./diagram";
 export * from "./types";
@@ -0,0 +1,656 @@
+import {
+	Machine,
+	MachineState,
+	StateObject,
+	Transition,
+	Internal,
+	Immediate,
+	Enter,
+	Exit,
+	Implementations,
+	Guard,
+} from "./types";
+import { createMachine, resolveTarget, and, or, not } from "./core";
+import { getName, isAnonymous } from "./serialize";
+
+const SCXML_NAMESPACE = "http://www.w3.org/2005/07/scxml";
+// the namespace of the hooks that have no SCXML counterpart, i.e. the
+// executable content referencing the implementations by name
+const MACHINE_NAMESPACE = "https://github.com/chaance/react-machine";
+
+const HOOK_ELEMENTS = ["reduce", "assign", "action", "effect"];
+
+interface XMLElement {
+	name: string;
+	namespace?: string;
+	attributes: Record<string, string>;
+	children: XMLElement[];
+}
+
+/**
+ * Create a machine from an SCXML document. The states, the transitions
+ * and the enter/exit hooks are declared as with the machine DSL, and the
+ * `cond` of the transitions, the `src` of the invokes and the hooks of
+ * the react-machine namespace reference the given implementations by name.
+ *
+ * The states are named by their ids, or by the last part of their ids
+ * when these are the dotted ids written by toSCXML, e.g. `editor.dirty`.
+ * Any data model, scripts, or other executable content is not supported.
+ */
+export function fromSCXML<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	xml: string,
+	implementations?: Implementations<ContextType>
+): Machine<ContextType, StateType> {
+	const root = parseXML(xml);
+	if (root.name !== "scxml" || !isSCXML(root)) {
+		throw new Error("The root element of the SCXML document must be <scxml>");
+	}
+
+	// the SCXML ids are unique within the document, while the targets of the
+	// machine are resolved relative to the state declaring the transition,
+	// so each of the targets is resolved into the dotted path of the state,
+	// which must not be shadowed by a nearer state of the same name
+	const paths: Record<string, string> = {};
+	const targets: [source: string, id: string][] = [];
+	(function collect(element: XMLElement, parent: string) {
+		for (const child of element.children) {
+			if (isStateElement(child)) {
+				const { id } = child.attributes;
+				if (!id) {
+					throw new Error(`The SCXML <${child.name}> must have an id`);
+				}
+				const path = parent
+					? `${parent}.${getStateName(id)}`
+					: getStateName(id);
+				paths[id] = path;
+				collect(child, path);
+			}
+		}
+	})(root, "");
+
+	function getPath(id: string, source: string) {
+		if (id.trim().includes(" ")) {
+			throw new Error(
+				`Transitions to multiple targets are not supported, '${id}'`
+			);
+		}
+		if (!(id in paths)) {
+			throw new Error(`Unknown SCXML target '${id}'`);
+		}
+		targets.push([source, id]);
+		return paths[id];
+	}
+
+	const machine = createMachine<ContextType, StateType, any>(
+		(dsl) => {
+			function toState(element: XMLElement): MachineState {
+				const { id } = element.attributes;
+				const name = getStateName(id);
+				const path = paths[id];
+
+				if (element.name === "history") {
+					const target = element.children.find(
+						(child) => child.name === "transition"
+					);
+					return dsl.history(name, {
+						deep: element.attributes.type === "deep",
+						target: target && getPath(target.attributes.target, path),
+					});
+				}
+
+				const opts: any[] = [];
+				if (element.attributes.initial) {
+					opts.push(dsl.initial(getPath(element.attributes.initial, path)));
+				}
+				for (const child of element.children) {
+					assertSCXML(child);
+					if (isStateElement(child)) {
+						opts.push(toState(child));
+					} else if (child.name === "transition") {
+						opts.push(...toTransitions(child, path));
+					} else if (child.name === "onentry") {
+						opts.push(dsl.enter(toHooks(child)));
+					} else if (child.name === "onexit") {
+						opts.push(dsl.exit(toHooks(child)));
+					} else if (child.name === "invoke") {
+						if (!child.attributes.src) {
+							throw new Error(
+								"The SCXML <invoke> must have the name of the invoke as src"
+							);
+						}
+						opts.push(dsl.enter({ invoke: child.attributes.src }));
+					} else if (child.name === "initial") {
+						const transition = child.children.find(
+							(initial) => initial.name === "transition"
+						);
+						if (!transition || !transition.attributes.target) {
+							throw new Error(
+								"The SCXML <initial> must have a <transition> with a target"
+							);
+						}
+						opts.push(dsl.initial(getPath(transition.attributes.target, path)));
+					} else {
+						throw new Error(`Unsupported SCXML element <${child.name}>`);
+					}
+				}
+
+				if (element.name === "final") {
+					return dsl.final(name, ...opts);
+				}
+				if (element.name === "parallel") {
+					return dsl.parallel(name, ...opts);
+				}
+				return dsl.state(name, ...opts);
+			}
+
+			// a transition without an event is an immediate transition, and
+			// a transition without a target is an internal transition
+			function toTransitions(
+				element: XMLElement,
+				source: string
+			): (Transition | Internal | Immediate)[] {
+				const { event, target, cond } = element.attributes;
+				const hooks = toHooks(element);
+				if (cond) {
+					hooks.guard = parseCond(cond);
+				}
+				if (!event) {
+					if (!target) {
+						throw new Error(
+							"The SCXML <transition> must have an event or a target"
+						);
+					}
+					return [dsl.immediate(getPath(target, source), hooks)];
+				}
+				return event
+					.split(/\s+/)
+					.filter(Boolean)
+					.map((type) =>
+						target
+							? dsl.transition(type, getPath(target, source), hooks)
+							: dsl.internal(type, hooks)
+					);
+			}
+
+			for (const child of root.children) {
+				assertSCXML(child);
+				if (!isStateElement(child)) {
+					throw new Error(`Unsupported SCXML element <${child.name}>`);
+				}
+				toState(child);
+			}
+		},
+		{
+			...(root.attributes.initial && {
+				initial: getPath(root.attributes.initial, ""),
+			}),
+			...(implementations && { implementations }),
+		}
+	);
+
+	for (const [source, id] of targets) {
+		const state = resolveTarget(machine, source, paths[id])!;
+		if (state.id !== paths[id]) {
+			throw new Error(
+				`The SCXML target '${id}' is shadowed by the state '${state.id}'`
+			);
+		}
+	}
+
+	return machine;
+}
+
+/**
+ * Write the machine as an SCXML document. The states are written with
+ * their dotted ids, which are unique within the document, and the hooks
+ * are referenced by name, see toJSON. The delayed transitions, the global
+ * transitions, the tags and the deferred events have no SCXML counterpart,
+ * and neither do the anonymous hooks, e.g. the inline guard functions, nor
+ * the raises of anything but event types, an error is thrown for any of
+ * these.
+ */
+export function toSCXML<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(machine: Machine<ContextType, StateType>): string {
+	const states = Object.values(machine.states as Record<string, MachineState>);
+	if (Object.keys(machine.transitions).length) {
+		throw new Error("Global transitions can not be written as SCXML");
+	}
+
+	const root: XMLElement = {
+		name: "scxml",
+		attributes: {
+			xmlns: SCXML_NAMESPACE,
+			"xmlns:machine": MACHINE_NAMESPACE,
+			version: "1.0",
+			...(machine.initial && {
+				initial: resolveTarget(machine, "", machine.initial)!.id,
+			}),
+		},
+		children: states.map((state) => toStateElement(machine, state)),
+	};
+
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${writeXML(root, "")}\n`;
+}
+
+function toStateElement(
+	machine: Machine<any, any>,
+	state: MachineState
+): XMLElement {
+	if (state.tags.length || state.defer.length || state.delays.length) {
+		throw new Error(
+			`The tags, deferred events and delayed transitions of the state '${state.id}' can not be written as SCXML`
+		);
+	}
+	if (state.data) {
+		throw new Error(
+			`The data of the final state '${state.id}' can not be written as SCXML`
+		);
+	}
+
+	if (state.history) {
+		return {
+			name: "history",
+			attributes: { id: state.id, type: state.history },
+			children: (state.immediates || []).map((immediate) =>
+				toTransitionElement(machine, state, immediate)
+			),
+		};
+	}
+
+	const children: XMLElement[] = [];
+	for (const enter of state.enter) {
+		if (enter.reducers.length || enter.raises.length || enter.effects.length) {
+			children.push({
+				name: "onentry",
+				attributes: {},
+				children: toHookElements(enter),
+			});
+		}
+		for (const invoke of enter.invokes) {
+			children.push({
+				name: "invoke",
+				attributes: { src: toInvokeName(state, invoke) },
+				children: [],
+			});
+		}
+	}
+	for (const exit of state.exit) {
+		children.push({
+			name: "onexit",
+			attributes: {},
+			children: toHookElements(exit),
+		});
+	}
+	for (const transitions of Object.values(state.transitions)) {
+		for (const transition of transitions) {
+			children.push(toTransitionElement(machine, state, transition));
+		}
+	}
+	for (const immediate of state.immediates || []) {
+		children.push(toTransitionElement(machine, state, immediate));
+	}
+	for (const child of Object.values(state.states)) {
+		children.push(toStateElement(machine, child));
+	}
+
+	return {
+		name: state.final ? "final" : state.parallel ? "parallel" : "state",
+		attributes: {
+			id: state.id,
+			...(state.initial && {
+				initial: resolveTarget(machine, state.id, state.initial)!.id,
+			}),
+		},
+		children,
+	};
+}
+
+function toTransitionElement(
+	machine: Machine<any, any>,
+	state: MachineState,
+	transition: Transition | Internal | Immediate
+): XMLElement {
+	const attributes: Record<string, string> = {};
+	if ("event" in transition) {
+		attributes.event = transition.event;
+	}
+	if (!("internal" in transition)) {
+		attributes.target = resolveTarget(machine, state.id, transition.target)!.id;
+	}
+	if (transition.guards.length) {
+		attributes.cond = transition.guards
+			.map((guard) => writeCond(guard, true))
+			.join(" && ");
+	}
+	return {
+		name: "transition",
+		attributes,
+		children: toHookElements(transition),
+	};
+}
+
+/**
+ * The executable content of a transition, or of an enter or exit hook.
+ * The raises are written as SCXML <raise> elements, and the rest of the
+ * hooks as the elements of the react-machine namespace.
+ */
+function toHookElements(
+	hook: Transition | Internal | Immediate | Enter | Exit
+): XMLElement[] {
+	const elements: XMLElement[] = hook.reducers.map((reducer) => {
+		if (reducer.hook === "assign" && !reducer.implementation) {
+			if (typeof reducer.source !== "function") {
+				throw new Error(
+					"Only the assign functions and named assigns can be written as SCXML"
+				);
+			}
+		}
+		return {
+			name: reducer.hook || "reduce",
+			namespace: MACHINE_NAMESPACE,
+			attributes: { name: toImplementationName(reducer, "reducers") },
+			children: [],
+		};
+	});
+	for (const raise of hook.raises) {
+		const event = typeof raise === "string" ? raise : raise.type;
+		if (
+			typeof event !== "string" ||
+			(typeof raise === "object" && Object.keys(raise).length > 1)
+		) {
+			throw new Error("Only the raises of event types can be written as SCXML");
+		}
+		elements.push({ name: "raise", attributes: { event }, children: [] });
+	}
+	for (const effect of hook.effects) {
+		elements.push({
+			name: "effect",
+			namespace: MACHINE_NAMESPACE,
+			attributes: { name: toImplementationName(effect, "effects") },
+			children: [],
+		});
+	}
+	return elements;
+}
+
+function toInvokeName(state: MachineState, invoke: any) {
+	if (!invoke.implementation && typeof invoke !== "function") {
+		throw new Error(
+			`The invokes of the state '${state.id}' can not be written as SCXML, use named invokes instead`
+		);
+	}
+	return toImplementationName(invoke, "invokes");
+}
+
+// the SCXML document references the implementations of the hooks by name
+function toImplementationName(hook: any, key: string) {
+	const name = getName(hook, key);
+	if (isAnonymous(hook, key)) {
+		throw new Error(
+			`The anonymous ${name} hooks can not be written as SCXML, use named implementations instead`
+		);
+	}
+	return name;
+}
+
+/**
+ * Write the guards as a cond expression of the guard names, combined with
+ * `&&`, `||` and `!`. The guard objects with params can not be written.
+ */
+function writeCond(guard: Guard<any, any>, nested = false): string {
+	if (typeof guard === "function" || typeof guard === "string") {
+		return typeof guard === "string"
+			? guard
+			: toImplementationName(guard, "guards");
+	}
+	if (!("guards" in guard)) {
+		if (guard.params !== undefined) {
+			throw new Error(
+				`The params of the guard '${guard.type}' can not be written as SCXML`
+			);
+		}
+		return guard.type;
+	}
+	if (guard.type === "not") {
+		return `!${writeCond(guard.guards[0], true)}`;
+	}
+	const cond = guard.guards
+		.map((g) => writeCond(g, true))
+		.join(guard.type === "and" ? " && " : " || ");
+	return nested && guard.guards.length > 1 ? `(${cond})` : cond;
+}
+
+/**
+ * Parse a cond expression of guard names combined with `&&`, `||`, `!`
+ * and parentheses. The conditions combined with `&&` at the top level
+ * become the list of guards of the transition.
+ */
+function parseCond(cond: string): Guard<any, any>[] {
+	const tokens = cond.match(/&&|\|\||!|\(|\)|[^\s&|!()]+/g) || [];
+	let position = 0;
+
+	function expect(token?: string) {
+		const next = tokens[position++];
+		if (next === undefined || (token && next !== token)) {
+			throw new Error(`Unsupported SCXML cond '${cond}'`);
+		}
+		return next;
+	}
+
+	function parseOr(): Guard<any, any>[] {
+		const alternatives = [parseAnd()];
+		while (tokens[position] === "||") {
+			position++;
+			alternatives.push(parseAnd());
+		}
+		return alternatives.length > 1
+			? [or(...alternatives.map(toGuard))]
+			: alternatives[0];
+	}
+
+	function parseAnd(): Guard<any, any>[] {
+		const guards = [parseNot()];
+		while (tokens[position] === "&&") {
+			position++;
+			guards.push(parseNot());
+		}
+		return guards;
+	}
+
+	function parseNot(): Guard<any, any> {
+		const token = expect();
+		if (token === "!") {
+			return not(parseNot());
+		}
+		if (token === "(") {
+			const guards = parseOr();
+			expect(")");
+			return toGuard(guards);
+		}
+		if (!/^[\w$-]+$/.test(token)) {
+			throw new Error(`Unsupported SCXML cond '${cond}'`);
+		}
+		return token;
+	}
+
+	function toGuard(guards: Guard<any, any>[]) {
+		return guards.length > 1 ? and(...guards) : guards[0];
+	}
+
+	const guards = parseOr();
+	if (position < tokens.length) {
+		throw new Error(`Unsupported SCXML cond '${cond}'`);
+	}
+	return guards;
+}
+
+/**
+ * The hooks of the executable content of an SCXML element, as the options
+ * of the machine DSL. Each kind of hook keeps the order of the document.
+ */
+function toHooks(element: XMLElement) {
+	const hooks: Record<string, any> = {};
+	for (const child of element.children) {
+		let hook: string;
+		let value: any;
+		if (child.namespace === MACHINE_NAMESPACE) {
+			if (!HOOK_ELEMENTS.includes(child.name) || !child.attributes.name) {
+				throw new Error(
+					`Unsupported react-machine element <${
+						child.name
+					}>, expected one of ${HOOK_ELEMENTS.join(
+						", "
+					)} with the name of the implementation`
+				);
+			}
+			hook = child.name;
+			value = child.attributes.name;
+		} else if (child.name === "raise" && isSCXML(child)) {
+			hook = "raise";
+			value = child.attributes.event;
+		} else {
+			throw new Error(`Unsupported SCXML element <${child.name}>`);
+		}
+		hooks[hook] = (hooks[hook] || []).concat(value);
+	}
+	return hooks;
+}
+
+function getStateName(id: string) {
+	return id.split(".").pop()!;
+}
+
+function isStateElement(element: XMLElement) {
+	return (
+		isSCXML(element) &&
+		["state", "parallel", "final", "history"].includes(element.name)
+	);
+}
+
+// documents without namespaces are read as SCXML
+function isSCXML(element: XMLElement) {
+	return !element.namespace || element.namespace === SCXML_NAMESPACE;
+}
+
+function assertSCXML(element: XMLElement) {
+	if (!isSCXML(element)) {
+		throw new Error(`Unsupported element <${element.name}>`);
+	}
+}
+
+/**
+ * Parse the elements of an XML document, along with their attributes and
+ * the namespaces of their prefixes. The text, the comments, the CDATA
+ * sections and the processing instructions are skipped.
+ */
+function parseXML(xml: string): XMLElement {
+	const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+	const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+	const stack: {
+		element: XMLElement;
+		namespaces: Record<string, string>;
+	}[] = [];
+	let root: XMLElement | undefined;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(xml))) {
+		const [, closing, name, attributeList, selfClosing] = match;
+		if (closing) {
+			const open = stack.pop();
+			if (!open || open.element.name !== getLocalName(closing)) {
+				throw new Error(`Unexpected closing tag </${closing}> in the XML`);
+			}
+		} else if (name) {
+			const parent = stack[stack.length - 1];
+			const namespaces = { ...(parent && parent.namespaces) };
+			const attributes: Record<string, string> = {};
+			let attribute: RegExpExecArray | null;
+			while ((attribute = attributePattern.exec(attributeList))) {
+				const [, key, double, single] = attribute;
+				const value = decodeEntities(double !== undefined ? double : single);
+				if (key === "xmlns" || key.startsWith("xmlns:")) {
+					namespaces[key.slice(6)] = value;
+				} else {
+					attributes[key] = value;
+				}
+			}
+			const prefix = name.includes(":") ? name.split(":")[0] : "";
+			const element: XMLElement = {
+				name: getLocalName(name),
+				namespace: namespaces[prefix],
+				attributes,
+				children: [],
+			};
+			if (parent) {
+				parent.element.children.push(element);
+			} else if (root) {
+				throw new Error("The XML must have a single root element");
+			} else {
+				root = element;
+			}
+			if (!selfClosing) {
+				stack.push({ element, namespaces });
+			}
+		}
+	}
+
+	if (!root || stack.length) {
+		throw new Error("The XML is not well formed");
+	}
+	return root;
+}
+
+function getLocalName(name: string) {
+	return name.includes(":") ? name.slice(name.indexOf(":") + 1) : name;
+}
+
+function decodeEntities(value: string) {
+	return value.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+		if (code[0] === "#") {
+			return String.fromCharCode(
+				code[1] === "x" || code[1] === "X"
+					? parseInt(code.slice(2), 16)
+					: parseInt(code.slice(1), 10)
+			);
+		}
+		const entities: Record<string, string> = {
+			lt: "<",
+			gt: ">",
+			amp: "&",
+			quot: '"',
+			apos: "'",
+		};
+		return code in entities ? entities[code] : entity;
+	});
+}
+
+function writeXML(element: XMLElement, indent: string): string {
+	const name =
+		element.namespace === MACHINE_NAMESPACE
+			? `machine:${element.name}`
+			: element.name;
+	const attributes = Object.keys(element.attributes)
+		.map((key) => ` ${key}="${encodeEntities(element.attributes[key])}"`)
+		.join("");
+	if (!element.children.length) {
+		return `${indent}<${name}${attributes}/>`;
+	}
+	return [
+		`${indent}<${name}${attributes}>`,
+		...element.children.map((child) => writeXML(child, `${indent}  `)),
+		`${indent}</${name}>`,
+	].join("\n");
+}
+
+function encodeEntities(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
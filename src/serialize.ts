@@ -0,0 +1,264 @@
+import {
+	Machine,
+	MachineState,
+	StateObject,
+	Transition,
+	Internal,
+	Immediate,
+	Delayed,
+	Enter,
+	Exit,
+	MachineJSON,
+	StateNodeJSON,
+	TransitionJSON,
+	ActionJSON,
+	GuardObject,
+} from "./types";
+import { resolveTarget } from "./core";
+
+// the names of the hooks without a name of their own
+const HOOK_NAMES: Record<string, string> = {
+	guards: "guard",
+	reducers: "reduce",
+	effects: "effect",
+	invokes: "invoke",
+};
+
+/**
+ * Serialize the machine into the JSON config of an XState machine, which
+ * can be loaded by the XState visualizer and other Stately tooling. The
+ * immediate transitions become `always` transitions, and the targets are
+ * referenced by the ids of the states, e.g. `#machine.editor.dirty`.
+ *
+ * The hooks are listed by the names of their implementations, or by the
+ * names of the functions. The reducers, actions and raised events become
+ * the actions, and the effects and invokes of the enter hooks become
+ * invocations.
+ */
+export function toJSON<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+>(
+	machine: Machine<ContextType, StateType>,
+	options: { id?: string } = {}
+): MachineJSON {
+	const { id = "machine" } = options;
+	const states = machine.states as Record<string, MachineState>;
+
+	function toStateNode(state: MachineState): StateNodeJSON {
+		const node: StateNodeJSON = {};
+		const children = Object.values(state.states);
+
+		if (state.history) {
+			node.type = "history";
+			node.history = state.history;
+			if (state.immediates && state.immediates.length) {
+				node.target = toTarget(state.id, state.immediates[0].target);
+			}
+			return node;
+		}
+
+		if (state.parallel) {
+			node.type = "parallel";
+		} else if (state.final) {
+			node.type = "final";
+		} else if (children.length) {
+			node.initial =
+				state.initial || children.find((child) => !child.history)!.name;
+		}
+		if (state.tags.length) {
+			node.tags = state.tags;
+		}
+
+		const entry = state.enter
+			.map((enter) => toActions(enter))
+			.reduce((a, b) => a.concat(b), []);
+		const exit = state.exit
+			.map((exit) => toActions(exit, true))
+			.reduce((a, b) => a.concat(b), []);
+		const invoke = state.enter
+			.map((enter) => toInvokes(state, enter))
+			.reduce((a, b) => a.concat(b), []);
+		if (entry.length) {
+			node.entry = entry;
+		}
+		if (exit.length) {
+			node.exit = exit;
+		}
+		if (invoke.length) {
+			node.invoke = invoke;
+		}
+
+		Object.assign(node, toTransitions(state.id, state));
+
+		if (state.delays.length) {
+			node.after = {};
+			for (const transition of state.delays) {
+				const delay = getDelay(transition);
+				node.after[delay] = (node.after[delay] || []).concat(
+					toTransition(state.id, transition)
+				);
+			}
+		}
+
+		if (children.length) {
+			node.states = {};
+			for (const child of children) {
+				node.states[child.name] = toStateNode(child);
+			}
+		}
+
+		return node;
+	}
+
+	function toTransitions(
+		source: string,
+		state: Pick<MachineState, "transitions" | "immediates">
+	) {
+		const node: Pick<StateNodeJSON, "on" | "always"> = {};
+		const events = Object.keys(state.transitions);
+		if (events.length) {
+			node.on = {};
+			for (const event of events) {
+				node.on[event] = state.transitions[event].map((transition) =>
+					toTransition(source, transition)
+				);
+			}
+		}
+		if (state.immediates && state.immediates.length) {
+			node.always = state.immediates.map((transition) =>
+				toTransition(source, transition)
+			);
+		}
+		return node;
+	}
+
+	// internal transitions have no target
+	function toTransition(
+		source: string,
+		transition: Transition | Internal | Immediate | Delayed
+	): TransitionJSON {
+		const json: TransitionJSON = {};
+		if (!("internal" in transition)) {
+			json.target = toTarget(source, transition.target);
+		}
+		const cond = toCond(transition.guards);
+		if (cond) {
+			json.cond = cond;
+		}
+		const actions = toActions(transition, true);
+		if (actions.length) {
+			json.actions = actions;
+		}
+		return json;
+	}
+
+	function toTarget(source: string, target: string) {
+		return `#${id}.${resolveTarget(machine, source, target)!.id}`;
+	}
+
+	return {
+		id,
+		initial: machine.initial || Object.keys(states)[0],
+		...toTransitions("", { transitions: machine.transitions }),
+		states: Object.keys(states).reduce((all, name) => {
+			all[name] = toStateNode(states[name]);
+			return all;
+		}, {} as Record<string, StateNodeJSON>),
+	};
+}
+
+/**
+ * The actions of a transition, or of an enter or exit hook. The effects
+ * of the transitions and the exit hooks run once, and are listed as
+ * actions too.
+ */
+function toActions(
+	hook: Transition | Internal | Immediate | Delayed | Enter | Exit,
+	withEffects = false
+): ActionJSON[] {
+	const actions: ActionJSON[] = hook.reducers.map((reducer) =>
+		getName(reducer, "reducers")
+	);
+	for (const raise of hook.raises) {
+		actions.push(
+			typeof raise === "function"
+				? { type: "xstate.raise" }
+				: {
+						type: "xstate.raise",
+						event: typeof raise === "string" ? { type: raise } : raise,
+				  }
+		);
+	}
+	if (withEffects) {
+		actions.push(...hook.effects.map((effect) => getName(effect, "effects")));
+	}
+	return actions;
+}
+
+function toInvokes(state: MachineState, enter: Enter) {
+	const invokes = enter.invokes.concat(enter.effects);
+	return invokes.map((invoke: any, i: number) => ({
+		id: (invoke && invoke.id) || `${state.id}:invocation[${i}]`,
+		src: invoke.machine
+			? "machine"
+			: getName(
+					invoke.src || invoke,
+					enter.effects.includes(invoke) ? "effects" : "invokes"
+			  ),
+	}));
+}
+
+function toCond(guards: any[]): string | GuardObject | undefined {
+	if (guards.length === 0) {
+		return undefined;
+	}
+	const conds = guards.map(toGuard);
+	return conds.length === 1 ? conds[0] : { type: "and", guards: conds };
+}
+
+// guard objects and combinations of guards are plain objects already,
+// only the functions are replaced by their names
+function toGuard(guard: any): any {
+	if (typeof guard === "function") {
+		return getName(guard, "guards");
+	}
+	if (typeof guard === "object" && Array.isArray(guard.guards)) {
+		return { ...guard, guards: guard.guards.map(toGuard) };
+	}
+	return guard;
+}
+
+function getDelay(transition: Delayed) {
+	return typeof transition.delay === "number"
+		? String(transition.delay)
+		: transition.delay.name || "delay";
+}
+
+/**
+ * The name of a hook, either the name of its implementation, or the name
+ * of the function, falling back to the name of the hook, e.g. `assign`.
+ */
+export function getName(hook: any, key: string): string {
+	const source = hook.source !== undefined ? hook.source : hook;
+	if (source && source.implementation) {
+		return source.implementation.name;
+	}
+	if (typeof source === "function" && source.name) {
+		return source.name;
+	}
+	return hook.hook || HOOK_NAMES[key];
+}
+
+/**
+ * Check if the hook has no name of its own, i.e. if getName falls back to
+ * the name of the hook, including the functions named after the option
+ * they're passed as, e.g. `{ guard: (ctx) => ctx.valid }`.
+ */
+export function isAnonymous(hook: any, key: string): boolean {
+	const source = hook.source !== undefined ? hook.source : hook;
+	return (
+		!(source && source.implementation) &&
+		getName(hook, key) === (hook.hook || HOOK_NAMES[key])
+	);
+}
@@ -1,33 +1,100 @@
-import { EventObject, MachineDescription, StateObject, Service } from "./types";
+import {
+	EventObject,
+	Machine,
+	MachineDescription,
+	StateObject,
+	Service,
+	ServiceOptions,
+	DoneEvent,
+} from "./types";
 import {
 	createMachine,
 	transition,
+	runActions,
 	runEffects as run,
 	cleanEffects as clean,
+	stopChildren,
+	createScheduler,
+	resolveTarget,
 } from "./core";
+import { defaultClock } from "./clock";
 
 export function createService<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>,
 	EventType extends EventObject
 >(
-	machineDescription: MachineDescription<ContextType, StateType, EventType>,
-	context: ContextType = {} as ContextType
+	machineDescription:
+		| MachineDescription<ContextType, StateType, EventType>
+		| Machine<ContextType, StateType>,
+	context: ContextType | (() => ContextType) = {} as ContextType,
+	options: ServiceOptions<ContextType, StateType> = {}
 ) {
-	const machine = createMachine(machineDescription);
+	const {
+		clock,
+		initialState,
+		maxMicrosteps,
+		maxDeferred,
+		implementations,
+		parent,
+	} = options;
+	const initial = typeof initialState === "string" ? initialState : undefined;
+
+	// a machine created with createMachine can be started as is, e.g. when
+	// it's invoked by another machine
+	const machine =
+		machineDescription && typeof machineDescription === "object"
+			? {
+					...(implementations
+						? machineDescription.provide(implementations)
+						: machineDescription),
+					...(initial && { initial }),
+					...(maxMicrosteps && { maxMicrosteps }),
+					...(maxDeferred && { maxDeferred }),
+			  }
+			: createMachine(machineDescription, {
+					initial,
+					maxMicrosteps,
+					maxDeferred,
+					implementations,
+			  });
+	// the machines created with createMachine are validated already, except
+	// for the initial state given here
+	if (initial && !resolveTarget(machine, "", initial)) {
+		throw new Error(`Invalid initial state '${initial}'`);
+	}
 
-	const initialTransitionState: StateType = { name: null, context } as any;
+	// the initial state can be a persisted state object to start in, or
+	// the name of the state to enter instead of the machine's initial state
+	const initialTransitionState: StateType =
+		initialState && typeof initialState !== "string"
+			? initialState
+			: ({
+					name: null,
+					context:
+						typeof context === "function"
+							? (context as () => ContextType)()
+							: context,
+			  } as any);
 	const initialTransitionEvent: EventType = { type: null } as any;
 
 	// initial transition
-	const [state, effects] = transition<ContextType, StateType, EventType>(
-		machine,
-		initialTransitionState,
-		initialTransitionEvent
-	);
+	const [state, effects, actions] = transition<
+		ContextType,
+		StateType,
+		EventType
+	>(machine, initialTransitionState, initialTransitionEvent);
 
 	let cbs: ((...args: any) => any)[] = [];
+	let doneCbs: ((event: DoneEvent) => void)[] = [];
 	let running = true;
+	let processing = false;
+	let queue: (EventType | EventType["type"])[] = [];
+	let doneEvent: DoneEvent | undefined;
+	let resolveDone: (data: any) => void;
+	const done = new Promise<any>((resolve) => {
+		resolveDone = resolve;
+	});
 
 	const service: Service<ContextType, StateType, EventType> = {
 		machine,
@@ -35,23 +102,22 @@ export function createService<
 		prev: null,
 		pendingEffects: effects || [],
 		runningEffects: [],
+		parent,
+		children: {},
+		scheduler: createScheduler<EventType>(
+			(event) => service.send(event),
+			clock
+		),
+		clock: clock || defaultClock,
+		createChild: createService,
 		send(event) {
 			if (!running) return;
 
-			service.prev = service.state;
-			const [state, effects] = transition(
-				service.machine,
-				service.state,
-				event
-			);
-			service.state = state;
-			if (effects) {
-				service.pendingEffects = effects;
-				runEffects();
-			}
-
-			for (const cb of cbs) {
-				cb(state);
+			// events sent while processing another event, e.g. by an effect or
+			// a subscriber, are queued and processed once it's been completed
+			queue.push(event);
+			if (!processing) {
+				processQueue();
 			}
 		},
 		subscribe(fn) {
@@ -60,24 +126,99 @@ export function createService<
 				cbs = cbs.filter((f) => f !== fn);
 			};
 		},
+		done,
+		onDone(fn) {
+			if (doneEvent) {
+				fn(doneEvent);
+				return () => {};
+			}
+			doneCbs.push(fn);
+			return () => {
+				doneCbs = doneCbs.filter((f) => f !== fn);
+			};
+		},
 		stop() {
 			running = false;
+			queue = [];
 			cbs = [];
+			doneCbs = [];
 			service.pendingEffects = [];
 			service.runningEffects = clean(service.runningEffects);
+			service.scheduler.clear();
+			// the invoked machines are stopped by their effects, stop the
+			// spawned machines as well
+			stopChildren(service);
 		},
 	};
 
-	function runEffects() {
-		service.runningEffects = clean(service.runningEffects);
-		service.runningEffects = run(
-			service.pendingEffects,
+	function processQueue() {
+		processing = true;
+		try {
+			while (running && queue.length > 0) {
+				processEvent(queue.shift()!);
+			}
+		} finally {
+			queue = [];
+			processing = false;
+		}
+	}
+
+	// run to completion, every event is fully processed, including running
+	// the effects and notifying the subscribers, before the next one
+	function processEvent(event: EventType | EventType["type"]) {
+		service.prev = service.state;
+		const [state, effects, actions] = transition(
+			service.machine,
 			service.state,
-			service.send
+			event
+		);
+		service.state = state;
+		runActions(actions, service, state.configuration);
+		if (effects) {
+			service.pendingEffects = effects;
+			runEffects();
+		}
+
+		for (const cb of cbs) {
+			cb(state);
+		}
+
+		if (state.final) {
+			complete();
+		}
+	}
+
+	// the effects of the states that remain active keep running
+	function runEffects() {
+		service.runningEffects = clean(
+			service.runningEffects,
+			service.state.configuration,
+			service.pendingEffects
+		).concat(
+			run(service.pendingEffects, service.state, service.send, clock, service)
 		);
 	}
 
+	// the machine completes once, when it first reaches a final state
+	function complete() {
+		if (doneEvent) return;
+
+		doneEvent = { type: "done", data: service.state.output };
+		resolveDone(doneEvent.data);
+		for (const fn of doneCbs) {
+			fn(doneEvent);
+		}
+		doneCbs = [];
+	}
+
+	// events sent by the initial actions and effects are processed after them
+	processing = true;
+	runActions(actions, service);
 	runEffects();
+	if (state.final) {
+		complete();
+	}
+	processQueue();
 
 	return service;
 }
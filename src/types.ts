@@ -12,12 +12,68 @@ export type Event<EventType extends EventObject> =
 export interface StateObject<ContextType extends object> {
 	name: string;
 	context: ContextType;
+	configuration?: string[];
+	history?: Record<string, string[]>;
 	final?: true;
+	output?: any;
+	// the events deferred by the active states, see defer()
+	deferred?: EventObject[];
 }
 
-export interface MachineOptions {
-	assign: string | boolean;
-	deps: any[];
+export type StateValue = string | { [key: string]: StateValue };
+
+export interface StateHelpers {
+	value: StateValue;
+	matches(value: StateValue): boolean;
+	hasTag(tag: string): boolean;
+}
+
+export interface MachineOptions<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+> {
+	assign?: string | boolean;
+	deps?: any[];
+	clock?: Clock;
+	initialState?: StateType["name"] | StateType;
+	onDone?: (event: DoneEvent) => void;
+	maxMicrosteps?: number;
+	maxDeferred?: number;
+	implementations?: Implementations<ContextType>;
+}
+
+export interface CreateMachineOptions {
+	initial?: string;
+	maxMicrosteps?: number;
+	maxDeferred?: number;
+	implementations?: Implementations;
+}
+
+export interface ServiceOptions<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+> {
+	clock?: Clock;
+	initialState?: StateType["name"] | StateType;
+	maxMicrosteps?: number;
+	maxDeferred?: number;
+	implementations?: Implementations<ContextType>;
+	// the actor that invoked the service, receiving the events of sendParent
+	parent?: Actor;
+}
+
+/**
+ * The timer functions used for scheduling delayed transitions. Pass
+ * a custom clock to control the passing of time, e.g. in tests.
+ */
+export interface Clock {
+	setTimeout(fn: () => void, ms: number): any;
+	clearTimeout(id: any): void;
+}
+
+export interface SimulatedClock extends Clock {
+	now(): number;
+	advance(ms: number): void;
 }
 
 export interface Service<
@@ -26,13 +82,109 @@ export interface Service<
 	EventType extends EventObject
 > {
 	machine: Machine<ContextType, StateType>;
-	state: StateType;
-	prev: null | StateType;
+	state: StateType & StateHelpers;
+	prev: null | (StateType & StateHelpers);
 	pendingEffects: Effect<ContextType, EventType>[];
 	runningEffects: Effect<ContextType, EventType>[];
 	send: SendFunction<EventType>;
 	subscribe(fn: (...args: any) => any): () => void;
+	done: Promise<any>;
+	onDone(fn: (event: DoneEvent) => void): () => void;
 	stop(): void;
+	parent?: Actor;
+	children: Record<string, Actor>;
+	scheduler: Scheduler;
+	clock: Clock;
+	createChild: NonNullable<Actor["createChild"]>;
+}
+
+/**
+ * Anything that can be sent events: a service, the machine of a useMachine
+ * hook, or the parent of an invoked machine. The children are the invoked
+ * machines with an id, that can be sent events with sendTo.
+ */
+export interface Actor {
+	send: SendFunction<any>;
+	parent?: Actor;
+	children: Record<string, Actor>;
+	stop?(): void;
+	scheduler?: Scheduler;
+	// the clock of the delayed transitions, passed on to the spawned machines
+	clock?: Clock;
+	// starts the invoked and the spawned machines, i.e. createService
+	createChild?<
+		ContextType extends object,
+		StateType extends StateObject<ContextType>,
+		EventType extends EventObject
+	>(
+		machine: Machine<ContextType, StateType>,
+		context: ContextType,
+		options: ServiceOptions<ContextType, StateType>
+	): Service<ContextType, StateType, EventType>;
+}
+
+/**
+ * The delayed sends of an actor, scheduled by sendAfter and cancelled by
+ * cancel, or once the effect owning them is cleaned up. Scheduling a send
+ * with the id of a pending send replaces it, e.g. for debouncing.
+ */
+export interface Scheduler {
+	sendAfter(
+		event: EventObject | string,
+		delay: number,
+		options?: SendAfterOptions,
+		owner?: object | string
+	): string;
+	cancel(id: string): void;
+	// cancel the sends of the owner, of the owners matching the predicate,
+	// or all of the sends
+	clear(owner?: object | string | ((owner: object | string) => boolean)): void;
+}
+
+export interface SendAfterOptions {
+	id?: string;
+}
+
+/**
+ * A reference to a machine spawned by a reducer or an action, that can be
+ * kept in the context. The machine is started once the transition has
+ * been completed, and stopped along with the machine that spawned it.
+ * Unless given, the id is assigned once the machine is started.
+ */
+export interface ActorRef<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+> extends Actor {
+	id: string;
+	state: StateType & StateHelpers;
+	send: SendFunction<EventType>;
+	subscribe(fn: (state: StateType & StateHelpers) => void): () => void;
+	stop(): void;
+}
+
+export interface SpawnOptions {
+	id?: string;
+	clock?: Clock;
+}
+
+export type SpawnFunction = <
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+>(
+	machine: Machine<ContextType, StateType>,
+	context?: ContextType,
+	options?: SpawnOptions
+) => ActorRef<ContextType, StateType, EventType>;
+
+/**
+ * The event describing the completion of a machine, carrying the output
+ * data of its final state. This can be sent as is to another machine.
+ */
+export interface DoneEvent {
+	type: "done";
+	data: any;
 }
 
 export type MachineDescription<
@@ -46,23 +198,140 @@ export type MachineDescription<
 	internal,
 	enter,
 	exit,
+	initial,
+	parallel,
+	final,
+	tags,
+	defer,
+	history,
+	after,
+	on,
 }: {
 	state: StateFunction<ContextType, StateType>;
+	parallel: ParallelFunction<ContextType, StateType>;
+	final: FinalFunction<ContextType, StateType, EventType>;
 	transition: TransitionFunction<ContextType, StateType, EventType>;
 	immediate: ImmediateFunction<ContextType, StateType, EventType>;
 	internal: InternalTransitionFunction<ContextType, EventType>;
 	enter: EnterFunction<ContextType, EventType>;
 	exit: ExitFunction<ContextType, EventType>;
+	initial: InitialFunction;
+	tags: TagsFunction;
+	defer: DeferFunction;
+	history: HistoryFunction;
+	after: DelayedFunction<ContextType, StateType, EventType>;
+	on: OnFunction;
 }) => any;
 
+/**
+ * A `state` function declares a state. Passing other states as arguments
+ * declares them as child states, making this a compound state.
+ *
+ * @param name - The name of the state.
+ * @param opts - Transitions, enter/exit hooks, child states and the initial child state.
+ */
 export type StateFunction<
 	ContextType extends object,
 	StateType extends StateObject<ContextType>
 > = (
 	name: StateType["name"],
-	...opts: (Transition | Immediate | Internal | Enter | Exit)[]
+	...opts: (
+		| Transition
+		| Immediate
+		| Internal
+		| Delayed
+		| Enter
+		| Exit
+		| Initial
+		| Tags
+		| Defer
+		| MachineState
+	)[]
+) => MachineState;
+
+/**
+ * A `parallel` function declares a parallel state. All of the child states
+ * (regions) of a parallel state are active at the same time, and each event
+ * is dispatched to every one of them.
+ *
+ * @param name - The name of the state.
+ * @param opts - Transitions, enter/exit hooks and child states.
+ */
+export type ParallelFunction<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>
+> = StateFunction<ContextType, StateType>;
+
+/**
+ * A `final` function declares a final state, which has no transitions.
+ * Entering a final state completes its parent state, raising the
+ * `done.state.<parent id>` event. Entering a top level final state
+ * completes the machine.
+ *
+ * @param name - The name of the state.
+ * @param opts - Enter/exit hooks, tags and the `data` function computing the output data.
+ */
+export type FinalFunction<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+> = (
+	name: StateType["name"],
+	...opts: (FinalOptions<ContextType, EventType> | Enter | Exit | Tags)[]
+) => MachineState;
+
+export interface FinalOptions<C extends object, E extends EventObject> {
+	data?: (context: C, event: E) => any;
+}
+
+/**
+ * An `on` declares global transitions, handled in every state of the
+ * machine. These are matched after the transitions of the active states.
+ *
+ * @param transitions - Any number of transition() or internal().
+ */
+export type OnFunction = (...transitions: (Transition | Internal)[]) => void;
+
+/**
+ * An `initial` declares which child state is entered when entering a
+ * compound state. Defaults to the first declared child state.
+ *
+ * @param target - The name of the child state.
+ */
+export type InitialFunction = (target: string) => Initial;
+
+/**
+ * A `history` declares a history pseudo state. Transitioning to a history
+ * state enters the child states that were active when its parent state
+ * was last exited, instead of the parent's initial state.
+ *
+ * @param name - The name of the history state.
+ * @param opts - `deep` to restore the active descendants at any depth rather
+ * than just the active child states, and the default `target` used before
+ * the parent state has been exited for the first time.
+ */
+export type HistoryFunction = (
+	name: string,
+	opts?: { deep?: boolean; target?: string }
 ) => MachineState;
 
+/**
+ * A `tags` declares the tags of a state, see `state.hasTag()`.
+ *
+ * @param tags - The names of the tags.
+ */
+export type TagsFunction = (...tags: string[]) => Tags;
+
+/**
+ * A `defer` declares the events deferred by a state. While the state is
+ * active, these events are buffered instead of being dropped when there
+ * is no transition for them, and replayed once the machine is in a state
+ * handling them.
+ *
+ * @param events - The event types, `*` and `form.*` wildcards match as in transitions.
+ */
+export type DeferFunction = (...events: string[]) => Defer;
+
 /**
  * A `transition` function is used to move from one state to another.
  *
@@ -77,7 +346,7 @@ export type TransitionFunction<
 > = (
 	event: EventType["type"],
 	target: StateType["name"],
-	opts: TransitionOptions<ContextType, EventType>
+	opts?: TransitionOptions<ContextType, EventType>
 ) => Transition;
 
 export type InternalTransitionFunction<
@@ -85,7 +354,7 @@ export type InternalTransitionFunction<
 	EventType extends EventObject
 > = (
 	event: string,
-	opts: TransitionOptions<ContextType, EventType>
+	opts?: TransitionOptions<ContextType, EventType>
 ) => Internal;
 
 /**
@@ -100,9 +369,27 @@ export type ImmediateFunction<
 	EventType extends EventObject
 > = (
 	target: StateType["name"],
-	opts: TransitionOptions<ContextType, EventType>
+	opts?: TransitionOptions<ContextType, EventType>
 ) => Immediate;
 
+/**
+ * An `after` transition is triggered once the state has been active for
+ * the given amount of time. The timer is cancelled when the state is exited.
+ *
+ * @param delay - The delay in milliseconds, or a function of context and event returning it.
+ * @param target - The name of the destination state.
+ * @param opts - Transition hooks, one of reduce, assign, guard or action.
+ */
+export type DelayedFunction<
+	ContextType extends object,
+	StateType extends StateObject<ContextType>,
+	EventType extends EventObject
+> = (
+	delay: number | ((context: ContextType, event: EventType) => number),
+	target: StateType["name"],
+	opts?: TransitionOptions<ContextType, EventType>
+) => Delayed;
+
 /**
  * An `internal` transition will re-enter the same state, but without re-runing enter/exit hooks.
  *
@@ -114,7 +401,7 @@ export type InternalFunction<
 	EventType extends EventObject
 > = (
 	target: string,
-	opts: TransitionOptions<ContextType, EventType>
+	opts?: TransitionOptions<ContextType, EventType>
 ) => Internal;
 
 export type EnterFunction<
@@ -128,12 +415,37 @@ export type ExitFunction<
 > = (opts: ExitOptions<ContextType, EventType>) => Exit;
 
 export interface MachineState {
+	type: "state";
 	name: string;
+	id: string;
+	initial?: string;
+	parallel?: true;
+	history?: "shallow" | "deep";
+	tags: string[];
+	defer: string[];
+	states: Record<string, MachineState>;
 	transitions: Record<string, Transition[]>;
 	immediates?: Immediate[];
+	delays: Delayed[];
 	enter: Enter[];
 	exit: Exit[];
 	final?: true;
+	data?: (context: any, event: any) => any;
+}
+
+export interface Initial {
+	type: "initial";
+	target: string;
+}
+
+export interface Tags {
+	type: "tags";
+	tags: string[];
+}
+
+export interface Defer {
+	type: "defer";
+	events: string[];
 }
 
 export interface Transition {
@@ -142,6 +454,8 @@ export interface Transition {
 	target: string;
 	guards: any[];
 	reducers: any[];
+	raises: any[];
+	effects: any[];
 }
 
 export interface Immediate {
@@ -149,6 +463,18 @@ export interface Immediate {
 	target: string;
 	guards: any[];
 	reducers: any[];
+	raises: any[];
+	effects: any[];
+}
+
+export interface Delayed {
+	type: "after";
+	delay: number | ((context: any, event: any) => number);
+	target: string;
+	guards: any[];
+	reducers: any[];
+	raises: any[];
+	effects: any[];
 }
 
 export interface Internal {
@@ -157,69 +483,226 @@ export interface Internal {
 	event: string;
 	guards: any[];
 	reducers: any[];
+	raises: any[];
+	effects: any[];
 }
 
 export interface Enter {
 	type: "enter";
 	reducers: any[];
+	raises: any[];
 	effects: any[];
+	invokes: any[];
 }
 
 export interface Exit {
 	type: "exit";
 	reducers: any[];
+	raises: any[];
 	effects: any[];
 }
 
+/**
+ * A hook, or the name of its implementation, see Implementations.
+ */
+export type Named<T> = T | string;
+
 export interface TransitionOptions<C extends object, E extends EventObject> {
-	guard?: GuardFunction<C, E> | GuardFunction<C, E>[];
-	reduce?: ReduceFunction<C, E> | ReduceFunction<C, E>[];
-	assign?: Assign<C, E> | Assign<C, E>[];
-	action?: ActionFunction<C, E> | ActionFunction<C, E>[];
+	guard?: Guard<C, E> | Guard<C, E>[];
+	reduce?: Named<ReduceFunction<C, E>> | Named<ReduceFunction<C, E>>[];
+	assign?: Named<Assign<C, E>> | Named<Assign<C, E>>[];
+	action?: Named<ActionFunction<C, E>> | Named<ActionFunction<C, E>>[];
+	raise?: RaiseOption<C, E> | RaiseOption<C, E>[];
+	effect?: Named<EffectFunction<C, E>> | Named<EffectFunction<C, E>>[];
 }
 
 export interface EnterOptions<C extends object, E extends EventObject> {
-	effect?: EffectFunction<C, E> | EffectFunction<C, E>[];
-	invoke?: InvokeFunction<C, E> | InvokeFunction<C, E>[];
-	reduce?: ReduceFunction<C, E> | ReduceFunction<C, E>[];
-	assign?: Assign<C, E> | Assign<C, E>[];
-	action?: ActionFunction<C, E> | ActionFunction<C, E>[];
+	effect?: Named<EffectFunction<C, E>> | Named<EffectFunction<C, E>>[];
+	invoke?:
+		| Named<InvokeFunction<C, E>>
+		| InvokeOptions<C, E>
+		| (Named<InvokeFunction<C, E>> | InvokeOptions<C, E>)[];
+	reduce?: Named<ReduceFunction<C, E>> | Named<ReduceFunction<C, E>>[];
+	assign?: Named<Assign<C, E>> | Named<Assign<C, E>>[];
+	action?: Named<ActionFunction<C, E>> | Named<ActionFunction<C, E>>[];
+	raise?: RaiseOption<C, E> | RaiseOption<C, E>[];
 }
 
 export interface ExitOptions<C extends object, E extends EventObject> {
-	reduce?: ReduceFunction<C, E> | ReduceFunction<C, E>[];
-	assign?: Assign<C, E> | Assign<C, E>[];
-	action?: ActionFunction<C, E> | ActionFunction<C, E>[];
+	reduce?: Named<ReduceFunction<C, E>> | Named<ReduceFunction<C, E>>[];
+	assign?: Named<Assign<C, E>> | Named<Assign<C, E>>[];
+	action?: Named<ActionFunction<C, E>> | Named<ActionFunction<C, E>>[];
+	raise?: RaiseOption<C, E> | RaiseOption<C, E>[];
+	effect?: Named<EffectFunction<C, E>> | Named<EffectFunction<C, E>>[];
+}
+
+/**
+ * The implementations of the hooks referenced by name, e.g.
+ * `guard: 'isValid'` is implemented by `guards.isValid`.
+ */
+export interface Implementations<
+	C extends object = any,
+	E extends EventObject = any
+> {
+	guards?: Record<string, GuardFunction<C, E>>;
+	reducers?: Record<string, ReduceFunction<C, E>>;
+	assigns?: Record<string, Exclude<Assign<C, E>, true>>;
+	actions?: Record<string, ActionFunction<C, E>>;
+	invokes?: Record<string, InvokeFunction<C, E> | InvokeOptions<C, E>>;
+	effects?: Record<string, EffectFunction<C, E>>;
 }
 
 export type ReduceFunction<
 	ContextType extends object,
 	EventType extends EventObject
-> = (context: ContextType, event: EventType) => ContextType;
+> = (
+	context: ContextType,
+	event: EventType,
+	helpers: ReduceHelpers
+) => ContextType;
 
 export type ActionFunction<ContextType extends object, EventType> = (
 	context: ContextType,
-	event: EventType
+	event: EventType,
+	helpers: ActionHelpers
 ) => unknown;
 
+/**
+ * The helpers passed to the reducers, e.g. assign.
+ */
+export interface ReduceHelpers {
+	spawn: SpawnFunction;
+}
+
+/**
+ * The helpers passed to the actions, along with the actor calling them,
+ * e.g. for sending events to its parent or children.
+ */
+export interface ActionHelpers extends ReduceHelpers {
+	self?: Actor;
+	// the id of the state owning an enter action, see sendAfter
+	state?: string;
+}
+
+/**
+ * An event raised to the machine itself, processed after the current
+ * microstep, before any events sent from the outside. Either an event, or
+ * a function of context and event returning one.
+ */
+export type RaiseOption<C extends object, E extends EventObject> =
+	| E
+	| E["type"]
+	| ((context: C, event: E) => E | E["type"]);
+
+/**
+ * An event sent to another machine by sendParent or sendTo, which doesn't
+ * have to be one of the events of the machine sending it.
+ */
+export type SendOption<C extends object, E extends EventObject> =
+	| EventObject
+	| string
+	| ((context: C, event: E) => EventObject | string);
+
 export type GuardFunction<ContextType extends object, EventType> = (
 	context: ContextType,
-	event: EventType
+	event: EventType,
+	params?: any
 ) => boolean;
 
+/**
+ * A guard referencing the implementation in the `guards` of the machine's
+ * implementations by its type, which is called with the params as the
+ * third argument. Unlike a function, it can be inspected by tooling.
+ */
+export interface GuardObject {
+	type: string;
+	params?: any;
+}
+
+/**
+ * The guard created by and(), or() and not(), combining other guards.
+ */
+export interface GuardCombinator<C extends object, E> {
+	type: "and" | "or" | "not";
+	guards: Guard<C, E>[];
+}
+
+export type Guard<C extends object, E> =
+	| GuardFunction<C, E>
+	| string
+	| GuardObject
+	| GuardCombinator<C, E>;
+
 export type Assign<ContextType extends object, EventType> =
 	| true
 	| Partial<ContextType>
-	| ((context: ContextType, event: EventType) => Partial<ContextType>);
+	| ((
+			context: ContextType,
+			event: EventType,
+			helpers: ReduceHelpers
+	  ) => Partial<ContextType>);
 
+// the signal is undefined where AbortController is not available, e.g. Node 14
 export type InvokeFunction<ContextType extends object, EventType> = (
 	context: ContextType,
-	event: EventType
+	event: EventType,
+	signal?: AbortSignal
 ) => Promise<any>;
 
-export type EffectFunction<ContextType extends object, EventType> = (
+/**
+ * An invoke with an `id` sends the `invoke.<id>.done`, `invoke.<id>.error`
+ * and `invoke.<id>.retrying` events, unless custom `onDone`, `onError` and
+ * `onRetry` event types are given. Instead of an async function as `src`,
+ * a machine can be invoked, which is started as a child service with the
+ * context returned by `context`.
+ */
+export type InvokeOptions<ContextType extends object, EventType> = (
+	| {
+			src: InvokeFunction<ContextType, EventType>;
+			machine?: undefined;
+			context?: undefined;
+	  }
+	| {
+			src?: undefined;
+			machine: Machine<any, any>;
+			context?: (context: ContextType, event: EventType) => object;
+	  }
+) &
+	InvokePolicy;
+
+export interface InvokePolicy {
+	id?: string;
+	onDone?: string;
+	onError?: string;
+	onRetry?: string;
+	// the time in milliseconds after which an attempt fails
+	timeout?: number;
+	retry?: RetryPolicy;
+}
+
+/**
+ * How failed attempts of an invoke are retried. The delay before each
+ * attempt grows exponentially by the given factor, up to `maxDelay`.
+ */
+export interface RetryPolicy {
+	// the maximum number of attempts, including the first one
+	attempts?: number;
+	delay?: number;
+	factor?: number;
+	maxDelay?: number;
+	jitter?: boolean;
+	shouldRetry?: (error: any, attempt: number) => boolean;
+}
+
+export type EffectFunction<
+	ContextType extends object,
+	EventType extends EventObject
+> = (
 	context: ContextType,
-	event: EventType
+	event: EventType,
+	send: EffectSendFunction<EventType>,
+	clock: Clock,
+	self?: Actor
 ) => CleanupFunction | void;
 
 export type CleanupFunction = () => void;
@@ -228,11 +711,28 @@ export type SendFunction<EventType extends EventObject> = (
 	event: EventType | EventType["type"]
 ) => void;
 
+/**
+ * The send function passed to the effects, which can also schedule events
+ * to be sent later. The scheduled events are cancelled once the effect is
+ * cleaned up.
+ */
+export type EffectSendFunction<
+	EventType extends EventObject
+> = SendFunction<EventType> & {
+	sendAfter(
+		event: EventType | EventType["type"],
+		delay: number,
+		options?: SendAfterOptions
+	): string;
+	cancel(id: string): void;
+};
+
 export interface HookKeys {
 	guard: "guards";
 	reduce: "reducers";
 	effect: "effects";
 	invoke: "invokes";
+	raise: "raises";
 }
 
 export type HookType =
@@ -241,7 +741,8 @@ export type HookType =
 	| "action"
 	| "guard"
 	| "invoke"
-	| "effect";
+	| "effect"
+	| "raise";
 
 export type ValueOf<T> = T[keyof T];
 
@@ -250,6 +751,60 @@ export type Machine<
 	StateType extends StateObject<ContextType>
 > = {
 	states: { [key in keyof StateType]: MachineState };
+	transitions: Record<string, Transition[]>;
+	initial?: string;
+	maxMicrosteps?: number;
+	maxDeferred?: number;
+	implementations?: Implementations;
+	// create a variant of the machine, with the given implementations
+	// overriding its own
+	provide(implementations: Implementations): Machine<ContextType, StateType>;
+};
+
+/**
+ * A machine serialized into the JSON config of an XState machine, e.g.
+ * for the XState visualizer, see toJSON. The hooks are listed by name.
+ */
+export interface MachineJSON extends StateNodeJSON {
+	id: string;
+}
+
+export interface StateNodeJSON {
+	type?: "parallel" | "final" | "history";
+	history?: "shallow" | "deep";
+	target?: string;
+	initial?: string;
+	tags?: string[];
+	entry?: ActionJSON[];
+	exit?: ActionJSON[];
+	invoke?: { id: string; src: string }[];
+	on?: Record<string, TransitionJSON[]>;
+	always?: TransitionJSON[];
+	after?: Record<string, TransitionJSON[]>;
+	states?: Record<string, StateNodeJSON>;
+}
+
+export interface TransitionJSON {
+	target?: string;
+	cond?: string | GuardObject;
+	actions?: ActionJSON[];
+}
+
+export type ActionJSON = string | { type: string; event?: EventObject };
+
+/**
+ * An action collected while transitioning, along with the context and the
+ * event it is to be called with.
+ */
+export type Action<
+	ContextType extends object,
+	EventType extends EventObject
+> = {
+	run: ActionFunction<ContextType, EventType>;
+	context: ContextType;
+	event: EventType;
+	// the id of the state owning an enter action, see sendAfter
+	state?: string;
 };
 
 export type Effect<
@@ -259,8 +814,13 @@ export type Effect<
 	run: (
 		curr: ContextType,
 		event: EventType,
-		send: SendFunction<EventType>
+		send: EffectSendFunction<EventType>,
+		clock: Clock,
+		self?: Actor
 	) => (() => void) | void;
 	event: EventType;
+	// the id of the state owning the effect, empty for the effects owned by
+	// the machine, i.e. the effects of the exit hooks and the transitions
+	state: string;
 	dispose?: () => any;
 };